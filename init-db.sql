@@ -56,7 +56,9 @@ CREATE TABLE IF NOT EXISTS pipeline_process_history (
   duration_ms INTEGER NOT NULL,
   error_message TEXT,
   created_at TIMESTAMP DEFAULT NOW(),
-  is_priority BOOLEAN DEFAULT FALSE
+  is_priority BOOLEAN DEFAULT FALSE,
+  failure_category VARCHAR(30),       -- see src/shared/failure-classifier.ts
+  failure_code VARCHAR(50)
 );
 
 -- Optimization results table (for storing final optimization status per entity)
@@ -71,7 +73,9 @@ CREATE TABLE IF NOT EXISTS optimization_results (
   completed_at TIMESTAMP NOT NULL,
   created_at TIMESTAMP DEFAULT NOW(),
   updated_at TIMESTAMP DEFAULT NOW(),
-  report_json JSONB                   -- Full processing report (avoids CDN cache issues)
+  report_json JSONB,                  -- Full processing report (avoids CDN cache issues)
+  failure_category VARCHAR(30),       -- see src/shared/failure-classifier.ts
+  failure_code VARCHAR(50)
 );
 
 -- Create indexes for better query performance
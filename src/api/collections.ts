@@ -0,0 +1,136 @@
+import axios from 'axios';
+import { CollectionEntityType, CollectionItem } from '../types';
+import { CONFIG } from '../config';
+import { RequestScheduler, hostOf, runAll } from './request-scheduler';
+
+const POINTER_BATCH_SIZE = 500;
+const COLLECTION_PAGE_SIZE = 1000;
+
+interface CollectionEntityPointer {
+  pointer: string;
+  entityId: string;
+}
+
+/**
+ * Enumerates active wearables and emotes: collections are listed through the
+ * lambdas server, their item pointers and entities through the content servers.
+ */
+export class CollectionsAPI {
+  constructor(private scheduler: RequestScheduler = new RequestScheduler()) {}
+
+  // Try each content server in order, failing over on errors
+  private async withContentServer<T>(request: (server: string) => Promise<T>): Promise<T> {
+    let lastError: any;
+
+    for (const server of CONFIG.CONTENT_SERVER_URLS) {
+      try {
+        return await this.scheduler.schedule(hostOf(server), () => request(server));
+      } catch (error: any) {
+        lastError = error;
+        console.log(`Request to ${server} failed (${error.code || error.message}), failing over to next content server...`);
+      }
+    }
+
+    throw lastError;
+  }
+
+  private async fetchCollectionIds(): Promise<string[]> {
+    const url = `${CONFIG.LAMBDAS_URL}/collections`;
+    const response = await this.scheduler.schedule(hostOf(url), () => axios.get(url, {
+      timeout: 30000,
+    }));
+
+    const collections: { id: string }[] = response.data?.collections || [];
+    return collections.map(collection => collection.id);
+  }
+
+  private async fetchCollectionPointers(collectionId: string): Promise<string[]> {
+    const pointers: string[] = [];
+
+    for (let pageNum = 1; ; pageNum++) {
+      const data = await this.withContentServer(async (server) => {
+        const response = await axios.get(`${server}/entities/active/collections/${collectionId}`, {
+          params: { pageSize: COLLECTION_PAGE_SIZE, pageNum },
+          timeout: 30000,
+        });
+        return response.data;
+      });
+
+      const entities: CollectionEntityPointer[] = data?.entities || [];
+      pointers.push(...entities.map(entity => entity.pointer));
+
+      const total = typeof data?.total === 'number' ? data.total : undefined;
+      if (entities.length < COLLECTION_PAGE_SIZE || (total !== undefined && pointers.length >= total)) {
+        break;
+      }
+    }
+
+    return pointers;
+  }
+
+  private async fetchEntities(pointers: string[]): Promise<any[]> {
+    return this.withContentServer(async (server) => {
+      const response = await axios.post(`${server}/entities/active`, { pointers }, {
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        timeout: 120000,
+      });
+      return response.data || [];
+    });
+  }
+
+  /**
+   * Fetch every active item of the given types. Items of collections that
+   * cannot be listed are left out rather than failing the whole step.
+   */
+  public async fetchItems(types: CollectionEntityType[]): Promise<CollectionItem[]> {
+    console.log(`Fetching collections from ${CONFIG.LAMBDAS_URL}...`);
+    const collectionIds = await this.fetchCollectionIds();
+    console.log(`Found ${collectionIds.length} collections`);
+
+    const pointerCollections = new Map<string, string>();
+    let failedCollections = 0;
+
+    await runAll(collectionIds, async (collectionId) => {
+      try {
+        for (const pointer of await this.fetchCollectionPointers(collectionId)) {
+          pointerCollections.set(pointer, collectionId);
+        }
+      } catch (error: any) {
+        failedCollections++;
+      }
+    }, (done, total) => {
+      console.log(`Collections listed: ${done}/${total} - ${pointerCollections.size} items (${failedCollections} failed)`);
+    });
+
+    const pointers = Array.from(pointerCollections.keys());
+    const batches: string[][] = [];
+    for (let i = 0; i < pointers.length; i += POINTER_BATCH_SIZE) {
+      batches.push(pointers.slice(i, i + POINTER_BATCH_SIZE));
+    }
+
+    const items = new Map<string, CollectionItem>();
+    await runAll(batches, async (batch) => {
+      try {
+        for (const entity of await this.fetchEntities(batch)) {
+          if (!types.includes(entity.type)) continue;
+          items.set(entity.id, {
+            id: entity.id,
+            pointers: entity.pointers || [],
+            type: entity.type,
+            collectionId: pointerCollections.get(entity.pointers?.[0]) || ''
+          });
+        }
+      } catch (error: any) {
+        console.error(`Failed to fetch a batch of ${batch.length} item entities:`, error.message);
+      }
+    }, (done, total) => {
+      console.log(`Item entities fetched: ${done}/${total} batches - ${items.size} items`);
+    });
+
+    const counts = types.map(type => `${Array.from(items.values()).filter(item => item.type === type).length} ${type}s`);
+    console.log(`Found ${counts.join(', ')} in ${collectionIds.length - failedCollections} collections`);
+    return Array.from(items.values());
+  }
+}
@@ -1,44 +1,138 @@
 import axios from 'axios';
-import { Scene, OptimizationReport } from '../types';
+import { Scene, OptimizationReport, ConsistencyReport, OptimizationCheckpoint, SceneState } from '../types';
 import { S3OptimizationChecker } from './s3-client';
-import { PATHS } from '../config';
+import { RequestScheduler, acceptUnlessThrottled, hostOf, isThrottling, runAll } from './request-scheduler';
+import { parseOptimizationReport } from './report-parser';
+import { CONFIG, PATHS } from '../config';
 
-const API_URL = 'https://peer.decentraland.org/content/entities/active';
 const BATCH_SIZE = process.env.CI ? 10000 : 50000; // Smaller batches in CI to avoid 500 errors
 const MIN_COORD = -175;
 const MAX_COORD = 175;
+const MAX_REPORTED_DISAGREEMENTS = 100;
 
 export class DecentralandAPI {
-  private async fetchBatch(pointers: string[], retryCount: number = 0): Promise<Scene[]> {
-    const MAX_RETRIES = 3;
+  constructor(private scheduler: RequestScheduler = new RequestScheduler()) {}
+
+  private servers: string[] = [...CONFIG.CONTENT_SERVER_URLS];
+  private failovers = 0;
+  private s3Checker: Promise<S3OptimizationChecker | null> | undefined;
+  private consistency: ConsistencyReport | null = CONFIG.CONSISTENCY_CHECK
+    ? { sampledBatches: 0, sampledPointers: 0, disagreementCount: 0, disagreements: [] }
+    : null;
+
+  private async postActiveEntities(server: string, query: { pointers: string[] } | { ids: string[] }): Promise<Scene[]> {
     const TIMEOUT = 120000; // 120 seconds
-    
-    try {
-      console.log(`Fetching batch of ${pointers.length} pointers... (attempt ${retryCount + 1}/${MAX_RETRIES})`);
-      const response = await axios.post(API_URL, {
-        pointers: pointers
-      }, {
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        timeout: TIMEOUT
-      });
+    const response = await this.scheduler.schedule(hostOf(server), () => axios.post(`${server}/entities/active`, query, {
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      timeout: TIMEOUT
+    }));
+
+    return response.data as Scene[];
+  }
+
+  private isRetryable(error: any): boolean {
+    const isTimeout = error.code === 'ECONNABORTED' || error.message?.includes('timeout');
+    return isTimeout || error.response?.status >= 500;
+  }
+
+  /**
+   * Fetch a batch of pointers, failing over to the next content server when one
+   * times out or returns 5xx. Each retry round walks the whole server list;
+   * the request scheduler holds back hosts that just failed.
+   */
+  private async fetchBatch(pointers: string[]): Promise<{ scenes: Scene[]; server: string }> {
+    const MAX_RETRIES = 3;
+    let lastError: any;
+
+    for (let retryCount = 0; retryCount < MAX_RETRIES; retryCount++) {
+      for (const server of this.servers) {
+        try {
+          console.log(`Fetching batch of ${pointers.length} pointers from ${server}... (attempt ${retryCount + 1}/${MAX_RETRIES})`);
+          const scenes = await this.postActiveEntities(server, { pointers });
+          return { scenes, server };
+        } catch (error: any) {
+          lastError = error;
+          if (!this.isRetryable(error)) {
+            console.error(`Error fetching batch from ${server}:`, error.message || error);
+            throw error;
+          }
+          this.failovers++;
+          console.log(`Request to ${server} failed (${error.code || error.message}), failing over to next content server...`);
+        }
+      }
+
+      if (retryCount < MAX_RETRIES - 1) {
+        console.log('All content servers failed, retrying once they are out of backoff...');
+      }
+    }
 
-      return response.data as Scene[];
+    console.error(`Error fetching batch after ${MAX_RETRIES} rounds:`, lastError?.message || lastError);
+    throw lastError;
+  }
+
+  // Fetch the same pointers from a second content server and record entity-id disagreements
+  private async sampleConsistency(pointers: string[], primaryServer: string, primaryScenes: Scene[]): Promise<void> {
+    if (!this.consistency) return;
+
+    const secondaryServer = this.servers.find(server => server !== primaryServer);
+    if (!secondaryServer) return;
+
+    let secondaryScenes: Scene[];
+    try {
+      secondaryScenes = await this.postActiveEntities(secondaryServer, { pointers });
     } catch (error: any) {
-      const isTimeout = error.code === 'ECONNABORTED' || error.message?.includes('timeout');
-      const isRetryable = isTimeout || error.response?.status >= 500;
-      
-      if (isRetryable && retryCount < MAX_RETRIES - 1) {
-        const backoffTime = Math.min(1000 * Math.pow(2, retryCount), 10000); // Exponential backoff, max 10s
-        console.log(`Request failed (${error.code || error.message}), retrying in ${backoffTime}ms...`);
-        await new Promise(resolve => setTimeout(resolve, backoffTime));
-        return this.fetchBatch(pointers, retryCount + 1);
+      console.log(`Consistency sample from ${secondaryServer} failed (${error.code || error.message}), skipping`);
+      return;
+    }
+
+    const toPointerMap = (scenes: Scene[]) => {
+      const map = new Map<string, string>();
+      for (const scene of scenes) {
+        for (const pointer of scene.pointers) {
+          map.set(pointer, scene.id);
+        }
       }
-      
-      console.error(`Error fetching batch after ${retryCount + 1} attempts:`, error.message || error);
-      throw error;
+      return map;
+    };
+    const primaryMap = toPointerMap(primaryScenes);
+    const secondaryMap = toPointerMap(secondaryScenes);
+
+    this.consistency.sampledBatches++;
+    this.consistency.sampledPointers += pointers.length;
+
+    for (const pointer of pointers) {
+      const primaryId = primaryMap.get(pointer) ?? null;
+      const secondaryId = secondaryMap.get(pointer) ?? null;
+      if (primaryId === secondaryId) continue;
+
+      this.consistency.disagreementCount++;
+      if (this.consistency.disagreements.length < MAX_REPORTED_DISAGREEMENTS) {
+        this.consistency.disagreements.push({
+          pointer,
+          primary: { server: primaryServer, entityId: primaryId },
+          secondary: { server: secondaryServer, entityId: secondaryId }
+        });
+      }
+    }
+  }
+
+  public getConsistencyReport(): ConsistencyReport | null {
+    return this.consistency;
+  }
+
+  public getFailoverCount(): number {
+    return this.failovers;
+  }
+
+  // The bucket listing is made once and shared by every check of the run; null when the S3 API is unavailable
+  private getS3Checker(): Promise<S3OptimizationChecker | null> {
+    if (!this.s3Checker) {
+      const checker = new S3OptimizationChecker();
+      this.s3Checker = checker.initialize().then(() => checker, () => null);
     }
+    return this.s3Checker;
   }
 
   private generatePointers(startX: number, endX: number, startY: number, endY: number): string[] {
@@ -53,48 +147,75 @@ export class DecentralandAPI {
     return pointers;
   }
 
-  private async checkOptimizedAsset(sceneId: string): Promise<boolean> {
+  private async checkOptimizedAsset(sceneId: string, retryCount: number = 0): Promise<boolean> {
+    const MAX_RETRIES = 3;
     try {
       const url = PATHS.getOptimizedAssetUrl(sceneId);
-      const response = await axios.head(url, {
+      const response = await this.scheduler.schedule(hostOf(url), () => axios.head(url, {
         timeout: 10000, // Increased timeout
-        validateStatus: (status) => status < 500
-      });
+        validateStatus: acceptUnlessThrottled
+      }));
       return response.status === 200;
     } catch (error) {
+      // The scheduler has already backed off the host, so a throttled check is retried rather than read as not optimized
+      if (retryCount < MAX_RETRIES - 1 && isThrottling(error)) {
+        return this.checkOptimizedAsset(sceneId, retryCount + 1);
+      }
       return false;
     }
   }
 
+  /**
+   * Read a scene's report from the bucket index built by the S3 checker.
+   * Scenes without a report object are skipped, and a report whose ETag
+   * matches the previous run is reused from the stored state.
+   */
+  private async fetchBucketReport(
+    s3Checker: S3OptimizationChecker,
+    sceneId: string,
+    previous?: SceneState
+  ): Promise<{ report: OptimizationReport | null; source: 'missing' | 'unchanged' | 'fetched' }> {
+    const info = s3Checker.getReportInfo(sceneId);
+    if (!info) {
+      return { report: null, source: 'missing' };
+    }
+
+    if (info.etag && previous?.report?.etag === info.etag) {
+      return { report: { sceneId, ...previous.report }, source: 'unchanged' };
+    }
+
+    try {
+      const data = await this.scheduler.schedule(s3Checker.schedulerHost, () => s3Checker.fetchReport(sceneId));
+      const report = data ? parseOptimizationReport(sceneId, data) : null;
+      if (!report) {
+        return { report: null, source: 'missing' };
+      }
+      report.etag = info.etag;
+      report.timestamp = report.timestamp || info.lastModified;
+      return { report, source: 'fetched' };
+    } catch (error) {
+      // Fall back to the CDN if the bucket read fails
+      return { report: await this.fetchOptimizationReport(sceneId), source: 'fetched' };
+    }
+  }
+
   private async fetchOptimizationReport(sceneId: string, retryCount: number = 0): Promise<OptimizationReport | null> {
-    const MAX_RETRIES = 2;
+    const MAX_RETRIES = 3;
 
     try {
       const url = PATHS.getReportUrl(sceneId);
-      const response = await axios.get(url, {
+      const response = await this.scheduler.schedule(hostOf(url), () => axios.get(url, {
         timeout: 10000, // Increased timeout
-        validateStatus: (status) => status < 500
-      });
+        validateStatus: acceptUnlessThrottled
+      }));
 
       if (response.status === 200 && response.data) {
-        // Handle both old format (success at top level) and new format (result.success)
-        const success = response.data.result?.success ?? response.data.success ?? false;
-        const errors = response.data.errors || [];
-        const individualAssets = response.data.individualAssets;
-
-        return {
-          sceneId,
-          success,
-          fatalError: response.data.fatalError || false,
-          timestamp: response.data.finishedAt || response.data.timestamp,
-          error: errors.length > 0 ? errors[0] : response.data.error,
-          details: response.data
-        };
+        return parseOptimizationReport(sceneId, response.data);
       }
       return null;
     } catch (error: any) {
-      if (retryCount < MAX_RETRIES - 1 && (error.code === 'ECONNABORTED' || error.response?.status >= 500)) {
-        await new Promise(resolve => setTimeout(resolve, 1000 * (retryCount + 1)));
+      // The scheduler backs off the host before the retry goes out
+      if (retryCount < MAX_RETRIES - 1 && isThrottling(error)) {
         return this.fetchOptimizationReport(sceneId, retryCount + 1);
       }
       return null;
@@ -109,6 +230,12 @@ export class DecentralandAPI {
     const gridSize = Math.floor(Math.sqrt(BATCH_SIZE));
     let successfulBatches = 0;
     let failedBatches = 0;
+    let batchIndex = 0;
+
+    console.log(`Content servers: ${this.servers.join(', ')}`);
+    if (this.consistency && this.servers.length < 2) {
+      console.log('Consistency check enabled but only one content server is configured, skipping samples');
+    }
     
     for (let startX = MIN_COORD; startX <= MAX_COORD; startX += gridSize) {
       for (let startY = MIN_COORD; startY <= MAX_COORD; startY += gridSize) {
@@ -118,9 +245,13 @@ export class DecentralandAPI {
         const pointers = this.generatePointers(startX, endX, startY, endY);
         
         try {
-          const scenes = await this.fetchBatch(pointers);
+          const { scenes, server } = await this.fetchBatch(pointers);
           allScenes.push(...scenes);
           successfulBatches++;
+
+          if (this.consistency && batchIndex % CONFIG.CONSISTENCY_SAMPLE_EVERY === 0) {
+            await this.sampleConsistency(pointers, server, scenes);
+          }
           
           const progress = ((startX - MIN_COORD) * (MAX_COORD - MIN_COORD + 1) + (startY - MIN_COORD)) / totalLands * 100;
           console.log(`Progress: ${progress.toFixed(2)}% - Success: ${successfulBatches}, Failed: ${failedBatches}`);
@@ -129,13 +260,11 @@ export class DecentralandAPI {
           failedBatches++;
           // Continue with next batch instead of throwing
         }
-        
-        // Small delay between requests to avoid overwhelming the server
-        await new Promise(resolve => setTimeout(resolve, 200));
+        batchIndex++;
       }
     }
 
-    console.log(`Fetched ${allScenes.length} scenes from ${successfulBatches} successful batches (${failedBatches} failed)`);
+    console.log(`Fetched ${allScenes.length} scenes from ${successfulBatches} successful batches (${failedBatches} failed, ${this.failovers} failovers)`);
     
     // If we failed to fetch most of the data, throw an error
     if (successfulBatches === 0) {
@@ -145,18 +274,60 @@ export class DecentralandAPI {
     return allScenes;
   }
 
-  public async checkOptimizationStatus(
-    scenes: Scene[],
-    onProgress?: (percent: number, message: string) => void
-  ): Promise<Scene[]> {
+  /**
+   * Look up the active scene on a parcel ("x,y") or with an entity id,
+   * failing over between content servers. Null when nothing is deployed there.
+   */
+  public async fetchScene(pointerOrId: string): Promise<Scene | null> {
+    const query = /^-?\d+,-?\d+$/.test(pointerOrId) ? { pointers: [pointerOrId] } : { ids: [pointerOrId] };
+    let lastError: any;
+
+    for (const server of this.servers) {
+      try {
+        const scenes = await this.postActiveEntities(server, query);
+        return scenes[0] ?? null;
+      } catch (error: any) {
+        lastError = error;
+        if (!this.isRetryable(error)) throw error;
+        console.log(`Request to ${server} failed (${error.code || error.message}), failing over to next content server...`);
+      }
+    }
+
+    throw lastError;
+  }
+
+  // Live status of a single scene: HEAD request for its optimized asset and its report from the CDN
+  public async checkScene<T extends Scene>(scene: T): Promise<T> {
+    const [hasOptimizedAssets, report] = await Promise.all([
+      this.checkOptimizedAsset(scene.id),
+      this.fetchOptimizationReport(scene.id)
+    ]);
+    scene.hasOptimizedAssets = hasOptimizedAssets;
+    scene.optimizationReport = report ?? undefined;
+    return scene;
+  }
+
+  public async checkOptimizationStatus<T extends Scene>(
+    scenes: T[],
+    onProgress?: (percent: number, message: string) => void,
+    checkpoint?: OptimizationCheckpoint,
+    getPreviousState?: (sceneId: string) => SceneState | undefined
+  ): Promise<T[]> {
     console.log(`\nChecking optimization status for ${scenes.length} scenes...`);
     const uniqueScenes = Array.from(new Map(scenes.map(s => [s.id, s])).values());
 
-    try {
-      // Try to use S3 API for fast checking
-      const s3Checker = new S3OptimizationChecker();
-      await s3Checker.initialize();
+    // The bucket listing gives both the optimized set and the index of report objects
+    const s3Checker = await this.getS3Checker();
 
+    const checkpointedOptimized = checkpoint?.getOptimizedSceneIds();
+    if (checkpointedOptimized) {
+      const optimizedIds = new Set(checkpointedOptimized);
+      for (const scene of uniqueScenes) {
+        scene.hasOptimizedAssets = optimizedIds.has(scene.id);
+      }
+      console.log(`Restored ${optimizedIds.size} scenes with optimized assets from checkpoint`);
+      onProgress?.(50, `Restored ${optimizedIds.size} optimized scenes from checkpoint`);
+    } else if (s3Checker) {
       // Mark scenes based on S3 data
       for (const scene of uniqueScenes) {
         scene.hasOptimizedAssets = s3Checker.hasOptimizedAsset(scene.id);
@@ -165,76 +336,80 @@ export class DecentralandAPI {
       const optimizedCount = uniqueScenes.filter(s => s.hasOptimizedAssets).length;
       console.log(`Found ${optimizedCount} scenes with optimized assets (using S3 API)`);
       onProgress?.(50, `Found ${optimizedCount} optimized scenes (S3 API)`);
-
-    } catch (error) {
+    } else {
       console.log('S3 API failed, falling back to HTTP HEAD requests...');
       onProgress?.(0, 'Checking optimization status (HTTP fallback)...');
 
       // Fallback to HTTP HEAD requests
-      let checked = 0;
-      const batchSize = 10;
-
-      for (let i = 0; i < uniqueScenes.length; i += batchSize) {
-        const batch = uniqueScenes.slice(i, Math.min(i + batchSize, uniqueScenes.length));
-
-        await Promise.all(
-          batch.map(async (scene) => {
-            scene.hasOptimizedAssets = await this.checkOptimizedAsset(scene.id);
-          })
-        );
-
-        checked += batch.length;
-        const progress = (checked / uniqueScenes.length) * 100;
-        console.log(`Optimization check progress: ${progress.toFixed(2)}% (${checked}/${uniqueScenes.length})`);
+      await runAll(uniqueScenes, async (scene) => {
+        scene.hasOptimizedAssets = await this.checkOptimizedAsset(scene.id);
+      }, (checked, total) => {
+        const progress = (checked / total) * 100;
+        console.log(`Optimization check progress: ${progress.toFixed(2)}% (${checked}/${total})`);
 
         // Report progress (0-50% for optimization check)
-        onProgress?.(progress * 0.5, `Checking optimization: ${checked}/${uniqueScenes.length} scenes`);
-
-        await new Promise(resolve => setTimeout(resolve, 100));
-      }
+        onProgress?.(progress * 0.5, `Checking optimization: ${checked}/${total} scenes`);
+      });
 
       const optimizedCount = uniqueScenes.filter(s => s.hasOptimizedAssets).length;
       console.log(`Found ${optimizedCount} scenes with optimized assets (using HTTP)`);
     }
-    
+
+    if (checkpoint && !checkpointedOptimized) {
+      checkpoint.setOptimizedSceneIds(uniqueScenes.filter(s => s.hasOptimizedAssets).map(s => s.id));
+    }
+
     // Fetch reports for ALL scenes (to check success status even for scenes with files)
-    console.log('\nFetching optimization reports for all scenes...');
+    console.log(`\nFetching optimization reports for all scenes (${s3Checker ? 'from bucket' : 'via CDN'})...`);
     onProgress?.(50, 'Fetching optimization reports...');
-    let reportsChecked = 0;
     let reportsFound = 0;
     let failedOptimizations = 0;
+    let reportsRestored = 0;
+    let reportsUnchanged = 0;
+    let reportsMissing = 0;
 
-    const reportBatchSize = 20;
-    for (let i = 0; i < uniqueScenes.length; i += reportBatchSize) {
-      const batch = uniqueScenes.slice(i, Math.min(i + reportBatchSize, uniqueScenes.length));
-
-      await Promise.all(
-        batch.map(async (scene) => {
-          const report = await this.fetchOptimizationReport(scene.id);
-          if (report) {
-            scene.optimizationReport = report;
-            reportsFound++;
-            // If report exists and shows failure, mark as NOT optimized
-            // even if the -mobile.zip file exists
-            if (!report.success) {
-              scene.hasOptimizedAssets = false;
-              failedOptimizations++;
-            }
-          }
-        })
-      );
-
-      reportsChecked += batch.length;
-      const progress = (reportsChecked / uniqueScenes.length) * 100;
-      console.log(`Report check progress: ${progress.toFixed(2)}% (${reportsChecked}/${uniqueScenes.length}) - Found ${reportsFound} reports (${failedOptimizations} failed)`);
+    await runAll(uniqueScenes, async (scene) => {
+      let report = checkpoint?.getReport(scene.id);
+      if (report !== undefined) {
+        reportsRestored++;
+      } else if (s3Checker) {
+        const result = await this.fetchBucketReport(s3Checker, scene.id, getPreviousState?.(scene.id));
+        report = result.report;
+        if (result.source === 'missing') reportsMissing++;
+        if (result.source === 'unchanged') reportsUnchanged++;
+        checkpoint?.recordReport(scene.id, report);
+      } else {
+        report = await this.fetchOptimizationReport(scene.id);
+        checkpoint?.recordReport(scene.id, report);
+      }
+      if (report) {
+        scene.optimizationReport = report;
+        reportsFound++;
+        // If report exists and shows failure, mark as NOT optimized
+        // even if the -mobile.zip file exists
+        if (!report.success) {
+          scene.hasOptimizedAssets = false;
+          failedOptimizations++;
+        }
+      }
+    }, (reportsChecked, total) => {
+      const progress = (reportsChecked / total) * 100;
+      console.log(`Report check progress: ${progress.toFixed(2)}% (${reportsChecked}/${total}) - Found ${reportsFound} reports (${failedOptimizations} failed)`);
 
       // Report progress (50-100% for report fetching)
-      onProgress?.(50 + progress * 0.5, `Fetching reports: ${reportsChecked}/${uniqueScenes.length}`);
+      onProgress?.(50 + progress * 0.5, `Fetching reports: ${reportsChecked}/${total}`);
 
-      await new Promise(resolve => setTimeout(resolve, 50));
-    }
+      checkpoint?.flush();
+    });
+    checkpoint?.flush(true);
 
     console.log(`Found ${reportsFound} optimization reports (${failedOptimizations} marked as failed)`);
+    if (s3Checker) {
+      console.log(`Skipped ${reportsMissing} scenes without a report object and ${reportsUnchanged} unchanged reports (same ETag)`);
+    }
+    if (reportsRestored > 0) {
+      console.log(`Restored ${reportsRestored} reports from checkpoint`);
+    }
     
     return scenes.map(scene => {
       const uniqueScene = uniqueScenes.find(s => s.id === scene.id);
@@ -245,4 +420,42 @@ export class DecentralandAPI {
       };
     });
   }
-}
\ No newline at end of file
+
+  /**
+   * Record which optimization API versions each scene has assets for.
+   * Every version, the primary one included, is read from its S3 listing with
+   * the same rule (an optimized asset exists), so migration counts compare like
+   * with like. Returns the versions that could be checked, primary first.
+   */
+  public async checkVersionCoverage(scenes: Scene[], versions: string[]): Promise<string[]> {
+    const primary = CONFIG.OPTIMIZATION_API_VERSION;
+    const optimizedSets = new Map<string, Set<string>>();
+
+    const primaryChecker = await this.getS3Checker();
+    if (!primaryChecker) {
+      console.log(`S3 API failed for ${primary}, skipping the version coverage`);
+      return [primary];
+    }
+    optimizedSets.set(primary, new Set(primaryChecker.getOptimizedSceneIds()));
+
+    for (const version of versions) {
+      if (version === primary) continue;
+
+      try {
+        const s3Checker = new S3OptimizationChecker(version);
+        await s3Checker.initialize();
+        optimizedSets.set(version, new Set(s3Checker.getOptimizedSceneIds()));
+      } catch (error) {
+        console.log(`S3 API failed for ${version}, leaving it out of the version coverage`);
+      }
+    }
+
+    const checkedVersions = [primary, ...versions.filter(version => version !== primary && optimizedSets.has(version))];
+
+    for (const scene of scenes) {
+      scene.optimizedVersions = checkedVersions.filter(version => optimizedSets.get(version)!.has(scene.id));
+    }
+
+    return checkedVersions;
+  }
+}
@@ -0,0 +1,204 @@
+import axios, { AxiosAdapter, AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { S3Client } from '@aws-sdk/client-s3';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+type FixtureService = 'http' | 's3';
+
+// A captured response, or the error of a request that never got one
+interface RecordedResponse {
+  status?: number;
+  statusText?: string;
+  headers?: Record<string, string>;
+  data?: any;
+  error?: {
+    name?: string;
+    code?: string;
+    message: string;
+    httpStatusCode?: number;
+  };
+}
+
+// Identical requests are stored together; replay serves their responses in recorded order
+interface FixtureFile {
+  request: object;
+  responses: RecordedResponse[];
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * Outbound responses of one run, stored as one file per distinct request
+ * under {dir}/{service}/{hash}.json.
+ */
+export class FixtureStore {
+  private files: Map<string, FixtureFile> = new Map();
+  private replayed: Map<string, number> = new Map();
+  private requests = 0;
+
+  constructor(public readonly mode: 'record' | 'replay', public readonly dir: string) {}
+
+  private getPath(service: FixtureService, request: object): string {
+    const hash = createHash('sha256').update(JSON.stringify(request)).digest('hex').slice(0, 32);
+    return path.join(this.dir, service, `${hash}.json`);
+  }
+
+  // Start a clean capture; earlier recordings in the directory are removed
+  public reset(): void {
+    for (const service of ['http', 's3']) {
+      fs.rmSync(path.join(this.dir, service), { recursive: true, force: true });
+    }
+  }
+
+  public record(service: FixtureService, request: object, response: RecordedResponse): void {
+    const filePath = this.getPath(service, request);
+    const file = this.files.get(filePath) || { request, responses: [] };
+    file.responses.push(response);
+    this.files.set(filePath, file);
+    this.requests++;
+
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(file, null, 2));
+  }
+
+  public replay(service: FixtureService, request: object): RecordedResponse {
+    const filePath = this.getPath(service, request);
+    let file = this.files.get(filePath);
+    if (!file) {
+      if (!fs.existsSync(filePath)) {
+        throw new Error(`No recorded ${service} response for ${JSON.stringify(request)} in ${this.dir}`);
+      }
+      file = JSON.parse(fs.readFileSync(filePath, 'utf-8'), (_, value) =>
+        typeof value === 'string' && ISO_DATE.test(value) ? new Date(value) : value) as FixtureFile;
+      this.files.set(filePath, file);
+    }
+
+    // Requests repeated more often than recorded get the last response again
+    const index = this.replayed.get(filePath) || 0;
+    this.replayed.set(filePath, index + 1);
+    this.requests++;
+    return file.responses[Math.min(index, file.responses.length - 1)];
+  }
+
+  public get requestCount(): number {
+    return this.requests;
+  }
+}
+
+let activeStore: FixtureStore | null = null;
+
+function toRecordedResponse(response: AxiosResponse): RecordedResponse {
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers: JSON.parse(JSON.stringify(response.headers)),
+    // Adapters return the raw body; axios parses it after the adapter, for recorded bodies too
+    data: Buffer.isBuffer(response.data) ? response.data.toString('utf-8') : response.data
+  };
+}
+
+function createAxiosAdapter(store: FixtureStore, httpAdapter: AxiosAdapter): AxiosAdapter {
+  return async (config: InternalAxiosRequestConfig) => {
+    const request = {
+      method: (config.method || 'get').toUpperCase(),
+      url: axios.getUri(config),
+      data: config.data ?? null
+    };
+
+    if (store.mode === 'record') {
+      try {
+        const response = await httpAdapter(config);
+        store.record('http', request, toRecordedResponse(response));
+        return response;
+      } catch (error: any) {
+        store.record('http', request, error.response
+          ? toRecordedResponse(error.response)
+          : { error: { code: error.code, message: error.message } });
+        throw error;
+      }
+    }
+
+    const recorded = store.replay('http', request);
+    if (recorded.error) {
+      throw new AxiosError(recorded.error.message, recorded.error.code, config);
+    }
+
+    const response: AxiosResponse = {
+      data: recorded.data,
+      status: recorded.status!,
+      statusText: recorded.statusText || '',
+      headers: new AxiosHeaders(recorded.headers),
+      config,
+      request: {}
+    };
+    if (!config.validateStatus || config.validateStatus(response.status)) {
+      return response;
+    }
+    const code = response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST;
+    throw new AxiosError(`Request failed with status code ${response.status}`, code, config, {}, response);
+  };
+}
+
+// Recorded object bodies are plain strings; give them back the stream helper the code reads them with
+function toBody(text: string) {
+  return { transformToString: async () => text };
+}
+
+/**
+ * Send an S3 command, recording or replaying it when fixtures are active.
+ * Object bodies are read in full so they can be stored.
+ */
+export async function sendS3<T>(client: S3Client, command: { input: object }): Promise<T> {
+  const store = activeStore;
+  if (!store) {
+    return client.send(command as any) as Promise<T>;
+  }
+
+  const request = { command: command.constructor.name, input: command.input };
+
+  if (store.mode === 'record') {
+    try {
+      const { $metadata, ...output } = await client.send(command as any) as any;
+      const body = output.Body ? await output.Body.transformToString() : undefined;
+      store.record('s3', request, { data: { ...output, Body: body } });
+      return { ...output, $metadata, Body: body !== undefined ? toBody(body) : undefined } as T;
+    } catch (error: any) {
+      store.record('s3', request, {
+        error: { name: error.name, message: error.message, httpStatusCode: error.$metadata?.httpStatusCode }
+      });
+      throw error;
+    }
+  }
+
+  const recorded = store.replay('s3', request);
+  if (recorded.error) {
+    throw Object.assign(new Error(recorded.error.message), {
+      name: recorded.error.name,
+      $metadata: { httpStatusCode: recorded.error.httpStatusCode }
+    });
+  }
+  const body = recorded.data.Body;
+  return { ...recorded.data, $metadata: {}, Body: typeof body === 'string' ? toBody(body) : undefined } as T;
+}
+
+/**
+ * Route every axios request and S3 command of this process through a fixture store.
+ * Returns a function that restores live requests.
+ */
+export function startFixtures(store: FixtureStore): () => void {
+  if (store.mode === 'record') {
+    store.reset();
+  }
+
+  const previousAdapter = axios.defaults.adapter;
+  axios.defaults.adapter = createAxiosAdapter(store, axios.getAdapter(previousAdapter));
+  activeStore = store;
+
+  return () => {
+    axios.defaults.adapter = previousAdapter;
+    activeStore = null;
+  };
+}
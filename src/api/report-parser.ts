@@ -0,0 +1,95 @@
+import { FailureClassification, OptimizationReport, ReportFormat, SceneMetrics } from '../types';
+import { classifyFailure } from '../shared/failure-classifier';
+
+/**
+ * Known shapes of `{sceneId}-report.json`:
+ *
+ * - legacy: `{ success, fatalError?, error?, timestamp?, originalSize?, optimizedSize?, processingTime? }`
+ * - result: `{ result: { success, originalSize?, optimizedSize?, processingTime? }, errors: [...],
+ *   fatalError?, startedAt?, finishedAt?, individualAssets?: { total, successful, failed } }`
+ */
+export function detectReportFormat(data: unknown): ReportFormat {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return 'unknown';
+  }
+
+  const report = data as Record<string, any>;
+  if (typeof report.result === 'object' && report.result !== null && typeof report.result.success === 'boolean') {
+    return 'result';
+  }
+  if (typeof report.success === 'boolean') {
+    return 'legacy';
+  }
+  return 'unknown';
+}
+
+function toNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+// Errors are plain strings in most reports, but some pipeline versions wrote objects
+function toErrorMessage(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'object' && value !== null && typeof (value as any).message === 'string') {
+    return (value as any).message;
+  }
+  return undefined;
+}
+
+function extractMetrics(data: Record<string, any>): SceneMetrics | undefined {
+  // Sizes may sit at the top level (legacy) or under result
+  const individualAssets = data.individualAssets;
+  let processingTime = toNumber(data.processingTime ?? data.result?.processingTime);
+  if (processingTime === undefined && data.startedAt && data.finishedAt) {
+    const elapsed = new Date(data.finishedAt).getTime() - new Date(data.startedAt).getTime();
+    processingTime = toNumber(elapsed);
+  }
+
+  const metrics: SceneMetrics = {
+    originalSize: toNumber(data.originalSize ?? data.result?.originalSize),
+    optimizedSize: toNumber(data.optimizedSize ?? data.result?.optimizedSize),
+    totalAssets: toNumber(individualAssets?.total),
+    successfulAssets: toNumber(individualAssets?.successful),
+    failedAssets: toNumber(individualAssets?.failed),
+    processingTime
+  };
+
+  return Object.values(metrics).some(value => value !== undefined) ? metrics : undefined;
+}
+
+/**
+ * Normalize a report body of any known format into an OptimizationReport.
+ * Reports in an unknown format are kept but count as unsuccessful.
+ * Unsuccessful reports are classified by their errors and Godot logs.
+ * Returns null when the body is not a JSON object at all.
+ */
+export function parseOptimizationReport(sceneId: string, data: unknown): OptimizationReport | null {
+  const format = detectReportFormat(data);
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return null;
+  }
+
+  const report = data as Record<string, any>;
+  const success = format === 'result' ? report.result.success : report.success === true;
+  const errors: unknown[] = Array.isArray(report.errors) ? report.errors : [];
+  const error = errors.map(toErrorMessage).find(message => message !== undefined) ?? toErrorMessage(report.error);
+
+  return {
+    sceneId,
+    format,
+    success,
+    fatalError: report.fatalError === true,
+    timestamp: report.finishedAt || report.timestamp,
+    error,
+    failure: success ? undefined : classifyFailure({ error, errors, godotLogs: report.godotLogs }),
+    metrics: extractMetrics(report),
+    details: report
+  };
+}
+
+// Failure classification of an unsuccessful report; reports restored from state
+// written before classification carry only the error and are classified here
+export function getReportFailure(report: OptimizationReport): FailureClassification | undefined {
+  if (report.success) return undefined;
+  return report.failure ?? classifyFailure({ error: report.error });
+}
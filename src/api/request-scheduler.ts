@@ -0,0 +1,264 @@
+import { CONFIG } from '../config';
+
+const MIN_CONCURRENCY = 1;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30000;
+const LATENCY_SMOOTHING = 0.2;
+const LATENCY_WARMUP_SAMPLES = 10;
+
+// Per-host request statistics included in the run summary
+export interface HostRequestStats {
+  host: string;
+  requests: number;
+  errors: number;
+  throttled: number; // 429, 5xx and timeouts, each of which triggered a backoff
+  avgLatencyMs: number;
+  maxLatencyMs: number;
+  concurrency: number; // concurrency limit at the end of the run
+}
+
+export interface RequestSchedulerOptions {
+  maxConcurrency: number;
+  ratePerSecond: number;
+  slowdownFactor: number;
+}
+
+// Host of a URL, or the value itself when it is not a URL (e.g. an S3 endpoint name)
+export function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+function getStatus(error: any): number | undefined {
+  return error?.response?.status ?? error?.$metadata?.httpStatusCode;
+}
+
+// Throttling, server errors and timeouts: the host gets backed off, and the request is worth retrying
+export function isThrottling(error: any): boolean {
+  const status = getStatus(error);
+  const isTimeout = error?.code === 'ECONNABORTED' || error?.code === 'ETIMEDOUT' || error?.message?.includes('timeout');
+  return isTimeout || error?.code === 'ECONNRESET' || status === 429 || (status !== undefined && status >= 500);
+}
+
+// axios validateStatus for requests that handle 4xx responses themselves; a 429 still
+// rejects, so the scheduler records a failure and backs off instead of counting a success
+export function acceptUnlessThrottled(status: number): boolean {
+  return status < 500 && status !== 429;
+}
+
+function getRetryAfterMs(error: any): number {
+  const value = error?.response?.headers?.['retry-after'];
+  const seconds = value !== undefined ? parseFloat(value) : NaN;
+  return Number.isFinite(seconds) ? seconds * 1000 : 0;
+}
+
+/**
+ * Concurrency and rate limit for a single host.
+ * The concurrency limit grows by one after a full window of healthy responses
+ * and is halved on 429/5xx/timeouts (AIMD); responses much slower than the
+ * host's baseline latency shrink it by one.
+ */
+class HostLimiter {
+  private queue: (() => void)[] = [];
+  private active = 0;
+  private limit: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private timer: NodeJS.Timeout | null = null;
+  private backoffMs = 0;
+  private backoffUntil = 0;
+  private healthyStreak = 0;
+  private slowStreak = 0;
+  private latencyEwma = 0;
+  private baselineLatency = Infinity;
+  private samples = 0;
+  private requests = 0;
+  private errors = 0;
+  private throttled = 0;
+  private totalLatency = 0;
+  private maxLatency = 0;
+
+  constructor(private host: string, private options: RequestSchedulerOptions) {
+    this.limit = options.maxConcurrency;
+    this.tokens = options.ratePerSecond;
+  }
+
+  public acquire(): Promise<void> {
+    return new Promise(resolve => {
+      this.queue.push(resolve);
+      this.pump();
+    });
+  }
+
+  public release(): void {
+    this.active--;
+    this.pump();
+  }
+
+  public recordSuccess(latencyMs: number): void {
+    this.recordLatency(latencyMs);
+    this.backoffMs = 0;
+
+    this.latencyEwma = this.samples === 0
+      ? latencyMs
+      : this.latencyEwma + LATENCY_SMOOTHING * (latencyMs - this.latencyEwma);
+    this.samples++;
+    if (this.samples < LATENCY_WARMUP_SAMPLES) {
+      return;
+    }
+    this.baselineLatency = Math.min(this.baselineLatency, this.latencyEwma);
+
+    if (this.latencyEwma > this.baselineLatency * this.options.slowdownFactor) {
+      this.healthyStreak = 0;
+      if (++this.slowStreak >= this.limit) {
+        this.limit = Math.max(MIN_CONCURRENCY, this.limit - 1);
+        this.slowStreak = 0;
+      }
+    } else {
+      this.slowStreak = 0;
+      if (++this.healthyStreak >= this.limit) {
+        this.limit = Math.min(this.options.maxConcurrency, this.limit + 1);
+        this.healthyStreak = 0;
+      }
+    }
+  }
+
+  public recordFailure(latencyMs: number, error: any): void {
+    this.recordLatency(latencyMs);
+    this.errors++;
+    if (!isThrottling(error)) {
+      return;
+    }
+
+    this.throttled++;
+    this.healthyStreak = 0;
+    this.limit = Math.max(MIN_CONCURRENCY, Math.floor(this.limit / 2));
+    this.backoffMs = this.backoffMs === 0 ? BASE_BACKOFF_MS : Math.min(this.backoffMs * 2, MAX_BACKOFF_MS);
+    this.backoffUntil = Math.max(this.backoffUntil, Date.now() + Math.max(this.backoffMs, getRetryAfterMs(error)));
+  }
+
+  public getStats(): HostRequestStats {
+    return {
+      host: this.host,
+      requests: this.requests,
+      errors: this.errors,
+      throttled: this.throttled,
+      avgLatencyMs: this.requests > 0 ? Math.round(this.totalLatency / this.requests) : 0,
+      maxLatencyMs: Math.round(this.maxLatency),
+      concurrency: this.limit
+    };
+  }
+
+  private recordLatency(latencyMs: number): void {
+    this.requests++;
+    this.totalLatency += latencyMs;
+    this.maxLatency = Math.max(this.maxLatency, latencyMs);
+  }
+
+  // Start as many queued requests as the concurrency limit, rate limit and backoff allow
+  private pump(): void {
+    if (this.timer) return;
+
+    while (this.queue.length > 0 && this.active < this.limit) {
+      const now = Date.now();
+      if (now < this.backoffUntil) {
+        this.wait(this.backoffUntil - now);
+        return;
+      }
+
+      // Token bucket holding up to one second worth of requests
+      const rate = this.options.ratePerSecond;
+      this.tokens = Math.min(rate, this.tokens + ((now - this.lastRefill) / 1000) * rate);
+      this.lastRefill = now;
+      if (this.tokens < 1) {
+        this.wait(((1 - this.tokens) / rate) * 1000);
+        return;
+      }
+
+      this.tokens -= 1;
+      this.active++;
+      this.queue.shift()!();
+    }
+  }
+
+  private wait(ms: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.pump();
+    }, Math.ceil(ms));
+  }
+}
+
+/**
+ * Shared scheduler for outbound requests. Every request names the host it goes
+ * to; each host gets its own adaptive concurrency limit, rate limit and backoff.
+ */
+export class RequestScheduler {
+  private hosts: Map<string, HostLimiter> = new Map();
+  private options: RequestSchedulerOptions;
+
+  constructor(options: Partial<RequestSchedulerOptions> = {}) {
+    this.options = {
+      maxConcurrency: CONFIG.REQUEST_MAX_CONCURRENCY,
+      ratePerSecond: CONFIG.REQUEST_RATE_PER_SECOND,
+      slowdownFactor: CONFIG.REQUEST_SLOWDOWN_FACTOR,
+      ...options
+    };
+  }
+
+  public async schedule<T>(host: string, request: () => Promise<T>): Promise<T> {
+    const limiter = this.getLimiter(host);
+    await limiter.acquire();
+
+    const startTime = Date.now();
+    try {
+      const result = await request();
+      limiter.recordSuccess(Date.now() - startTime);
+      return result;
+    } catch (error) {
+      limiter.recordFailure(Date.now() - startTime, error);
+      throw error;
+    } finally {
+      limiter.release();
+    }
+  }
+
+  public getStats(): HostRequestStats[] {
+    return Array.from(this.hosts.values())
+      .map(limiter => limiter.getStats())
+      .sort((a, b) => b.requests - a.requests);
+  }
+
+  private getLimiter(host: string): HostLimiter {
+    let limiter = this.hosts.get(host);
+    if (!limiter) {
+      limiter = new HostLimiter(host, this.options);
+      this.hosts.set(host, limiter);
+    }
+    return limiter;
+  }
+}
+
+/**
+ * Run a task for every item and let the scheduler decide how many run at once.
+ * onProgress is called roughly every 1% of items and once at the end.
+ */
+export async function runAll<T>(
+  items: T[],
+  task: (item: T) => Promise<void>,
+  onProgress?: (done: number, total: number) => void
+): Promise<void> {
+  const step = Math.max(1, Math.ceil(items.length / 100));
+  let done = 0;
+
+  await Promise.all(items.map(async (item) => {
+    await task(item);
+    done++;
+    if (done % step === 0 || done === items.length) {
+      onProgress?.(done, items.length);
+    }
+  }));
+}
@@ -1,69 +1,72 @@
-import { S3Client, ListObjectsV2Command, HeadObjectCommand } from '@aws-sdk/client-s3';
-import * as dotenv from 'dotenv';
 import { CONFIG, PATHS } from '../config';
+import { ObjectStorage, createAssetStorage } from '../storage/object-storage';
 
-dotenv.config();
+// A -report.json object found while listing the bucket
+export interface ReportObjectInfo {
+  etag?: string;
+  lastModified?: string;
+}
 
 export class S3OptimizationChecker {
-  private s3Client: S3Client;
-  private bucket: string;
+  private storage: ObjectStorage;
   private optimizedAssets: Set<string> = new Set();
+  private reports: Map<string, ReportObjectInfo> = new Map();
   private initialized: boolean = false;
+  private version: string;
 
-  constructor() {
-    this.s3Client = new S3Client({
-      endpoint: process.env.S3_ENDPOINT,
-      region: process.env.S3_REGION || 'auto',
-      credentials: {
-        accessKeyId: process.env.S3_ACCESS_KEY_ID!,
-        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY!,
-      },
-    });
-    this.bucket = CONFIG.S3_BUCKET;
+  constructor(version: string = CONFIG.OPTIMIZATION_API_VERSION, storage: ObjectStorage = createAssetStorage()) {
+    this.storage = storage;
+    this.version = version;
+  }
+
+  // Scheduler key of the bucket, so report fetches are paced per bucket on any storage backend
+  public get schedulerHost(): string {
+    return this.storage.description;
   }
 
   public async initialize(): Promise<void> {
     if (this.initialized) return;
     
-    console.log('🔍 Fetching list of optimized assets from S3...');
+    console.log(`🔍 Fetching list of optimized assets from ${this.storage.description} (${this.version})...`);
     const startTime = Date.now();
     
     try {
       let continuationToken: string | undefined;
       let totalObjects = 0;
       
-      const prefix = PATHS.s3Prefix;
+      const prefix = PATHS.getS3Prefix(this.version);
       const prefixRegex = new RegExp(`^${prefix}(.+?)-mobile\\.zip$`);
+      const reportRegex = new RegExp(`^${prefix}(.+?)-report\\.json$`);
 
       do {
-        const command = new ListObjectsV2Command({
-          Bucket: this.bucket,
-          Prefix: prefix,
-          ContinuationToken: continuationToken,
-          MaxKeys: 1000,
-        });
-
-        const response = await this.s3Client.send(command);
+        const page = await this.storage.list(prefix, continuationToken);
 
-        if (response.Contents) {
-          for (const object of response.Contents) {
-            if (object.Key && object.Key.endsWith('-mobile.zip')) {
-              // Extract scene ID from key: {version}/{sceneId}-mobile.zip
-              const match = object.Key.match(prefixRegex);
-              if (match) {
-                this.optimizedAssets.add(match[1]);
-              }
+        for (const object of page.objects) {
+          if (object.key.endsWith('-mobile.zip')) {
+            // Extract scene ID from key: {version}/{sceneId}-mobile.zip
+            const match = object.key.match(prefixRegex);
+            if (match) {
+              this.optimizedAssets.add(match[1]);
+            }
+          } else if (object.key.endsWith('-report.json')) {
+            // Extract scene ID from key: {version}/{sceneId}-report.json
+            const match = object.key.match(reportRegex);
+            if (match) {
+              this.reports.set(match[1], {
+                etag: object.etag,
+                lastModified: object.lastModified?.toISOString()
+              });
             }
           }
-          totalObjects += response.Contents.length;
         }
+        totalObjects += page.objects.length;
         
-        continuationToken = response.NextContinuationToken;
+        continuationToken = page.continuationToken;
         console.log(`  Fetched ${totalObjects} objects so far...`);
       } while (continuationToken);
       
       const elapsed = ((Date.now() - startTime) / 1000).toFixed(2);
-      console.log(`✅ Found ${this.optimizedAssets.size} optimized scenes in ${elapsed}s`);
+      console.log(`✅ Found ${this.optimizedAssets.size} optimized scenes and ${this.reports.size} reports in ${elapsed}s`);
       this.initialized = true;
     } catch (error) {
       console.error('Failed to fetch S3 objects:', error);
@@ -78,15 +81,22 @@ export class S3OptimizationChecker {
     return this.optimizedAssets.has(sceneId);
   }
 
+  public getReportInfo(sceneId: string): ReportObjectInfo | undefined {
+    if (!this.initialized) {
+      throw new Error('S3OptimizationChecker not initialized. Call initialize() first.');
+    }
+    return this.reports.get(sceneId);
+  }
+
+  // Read a scene's report straight from the bucket, bypassing the CDN cache
+  public async fetchReport(sceneId: string): Promise<any | null> {
+    const body = await this.storage.get(PATHS.getReportKey(sceneId, this.version));
+    return body ? JSON.parse(body) : null;
+  }
+
   public async checkSingleAsset(sceneId: string): Promise<boolean> {
     try {
-      const command = new HeadObjectCommand({
-        Bucket: this.bucket,
-        Key: PATHS.getOptimizedAssetKey(sceneId),
-      });
-
-      await this.s3Client.send(command);
-      return true;
+      return (await this.storage.head(PATHS.getOptimizedAssetKey(sceneId, this.version))) !== null;
     } catch (error) {
       return false;
     }
@@ -102,4 +112,4 @@ export class S3OptimizationChecker {
       sceneIds: this.getOptimizedSceneIds()
     };
   }
-}
\ No newline at end of file
+}
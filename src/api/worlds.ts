@@ -1,47 +1,48 @@
 import axios from 'axios';
-import { World, WorldWithOptimization, WorldsStats, OptimizationReport } from '../types';
-import { PATHS } from '../config';
-
-const WORLDS_API_URL = 'https://worlds-content-server.decentraland.org/index';
+import { World, WorldWithOptimization, WorldSceneOptimization, WorldOptimizationStatus, WorldsStats, OptimizationReport } from '../types';
+import { getWorldOptimizationStatus } from '../shared/report-schema';
+import { CONFIG, PATHS } from '../config';
+import { RequestScheduler, acceptUnlessThrottled, hostOf, isThrottling, runAll } from './request-scheduler';
+import { parseOptimizationReport } from './report-parser';
 
 export class WorldsAPI {
-  private async checkOptimizedAsset(sceneId: string): Promise<boolean> {
+  constructor(private scheduler: RequestScheduler = new RequestScheduler()) {}
+
+  private async checkOptimizedAsset(sceneId: string, retryCount: number = 0): Promise<boolean> {
+    const MAX_RETRIES = 3;
     try {
       const url = PATHS.getOptimizedAssetUrl(sceneId);
-      const response = await axios.head(url, {
+      const response = await this.scheduler.schedule(hostOf(url), () => axios.head(url, {
         timeout: 10000,
-        validateStatus: (status) => status < 500
-      });
+        validateStatus: acceptUnlessThrottled
+      }));
       return response.status === 200;
-    } catch {
+    } catch (error) {
+      // The scheduler has already backed off the host, so a throttled check is retried rather than read as not optimized
+      if (retryCount < MAX_RETRIES - 1 && isThrottling(error)) {
+        return this.checkOptimizedAsset(sceneId, retryCount + 1);
+      }
       return false;
     }
   }
 
   private async fetchOptimizationReport(sceneId: string, retryCount: number = 0): Promise<OptimizationReport | null> {
-    const MAX_RETRIES = 2;
+    const MAX_RETRIES = 3;
 
     try {
       const url = PATHS.getReportUrl(sceneId);
-      const response = await axios.get(url, {
+      const response = await this.scheduler.schedule(hostOf(url), () => axios.get(url, {
         timeout: 10000,
-        validateStatus: (status) => status < 500
-      });
+        validateStatus: acceptUnlessThrottled
+      }));
 
       if (response.status === 200 && response.data) {
-        return {
-          sceneId,
-          success: response.data.success || false,
-          fatalError: response.data.fatalError || false,
-          timestamp: response.data.timestamp,
-          error: response.data.error,
-          details: response.data
-        };
+        return parseOptimizationReport(sceneId, response.data);
       }
       return null;
     } catch (error: any) {
-      if (retryCount < MAX_RETRIES - 1 && (error.code === 'ECONNABORTED' || error.response?.status >= 500)) {
-        await new Promise(resolve => setTimeout(resolve, 1000 * (retryCount + 1)));
+      // The scheduler backs off the host before the retry goes out
+      if (retryCount < MAX_RETRIES - 1 && isThrottling(error)) {
         return this.fetchOptimizationReport(sceneId, retryCount + 1);
       }
       return null;
@@ -50,19 +51,25 @@ export class WorldsAPI {
 
   public async fetchWorlds(): Promise<World[]> {
     console.log('Fetching worlds from Decentraland...');
-
-    try {
-      const response = await axios.get(WORLDS_API_URL, {
-        timeout: 30000,
-      });
-
-      const worlds: World[] = response.data?.data || [];
-      console.log(`Found ${worlds.length} worlds`);
-      return worlds;
-    } catch (error: any) {
-      console.error('Error fetching worlds:', error.message);
-      throw error;
+    let lastError: any;
+
+    // Try each worlds server in order, failing over on errors
+    for (const server of CONFIG.WORLDS_SERVER_URLS) {
+      try {
+        const response = await this.scheduler.schedule(hostOf(server), () => axios.get(`${server}/index`, {
+          timeout: 30000,
+        }));
+
+        const worlds: World[] = response.data?.data || [];
+        console.log(`Found ${worlds.length} worlds (from ${server})`);
+        return worlds;
+      } catch (error: any) {
+        lastError = error;
+        console.error(`Error fetching worlds from ${server}:`, error.message);
+      }
     }
+
+    throw lastError;
   }
 
   public async checkWorldsOptimization(worlds: World[]): Promise<{
@@ -73,98 +80,92 @@ export class WorldsAPI {
 
     // Filter worlds that have scenes
     const worldsWithScenes = worlds.filter(w => w.scenes && w.scenes.length > 0);
-    console.log(`${worldsWithScenes.length} worlds have scenes`);
-
-    const results: WorldWithOptimization[] = [];
-    const batchSize = 20;
-    let checked = 0;
-
-    for (let i = 0; i < worldsWithScenes.length; i += batchSize) {
-      const batch = worldsWithScenes.slice(i, i + batchSize);
-
-      const batchResults = await Promise.all(
-        batch.map(async (world) => {
-          const primaryScene = world.scenes[0];
-          const hasOptimized = await this.checkOptimizedAsset(primaryScene.id);
-          const totalParcels = world.scenes.reduce(
-            (sum, scene) => sum + (scene.pointers?.length || 0),
-            0
-          );
-
-          return {
-            name: world.name,
-            sceneId: primaryScene.id,
-            title: primaryScene.title || 'Untitled',
-            thumbnail: primaryScene.thumbnail,
-            parcels: totalParcels,
-            hasOptimizedAssets: hasOptimized,
-            hasFailed: false,
-            optimizationReport: undefined as OptimizationReport | undefined,
-          };
-        })
-      );
-
-      results.push(...batchResults);
-      checked += batch.length;
-
-      const progress = ((checked / worldsWithScenes.length) * 100).toFixed(1);
-      console.log(`Worlds optimization check: ${progress}% (${checked}/${worldsWithScenes.length})`);
-
-      // Small delay between batches
-      if (i + batchSize < worldsWithScenes.length) {
-        await new Promise(resolve => setTimeout(resolve, 100));
+    const multiSceneWorlds = worldsWithScenes.filter(w => w.scenes.length > 1).length;
+    console.log(`${worldsWithScenes.length} worlds have scenes (${multiSceneWorlds} with more than one)`);
+
+    // Every scene of every world is checked on its own
+    const sceneResults = new Map<string, WorldSceneOptimization>();
+    for (const world of worldsWithScenes) {
+      for (const scene of world.scenes) {
+        sceneResults.set(scene.id, {
+          sceneId: scene.id,
+          title: scene.title || 'Untitled',
+          parcels: scene.pointers?.length || 0,
+          hasOptimizedAssets: false,
+          hasFailed: false
+        });
       }
     }
+    const scenes = Array.from(sceneResults.values());
+
+    await runAll(scenes, async (scene) => {
+      scene.hasOptimizedAssets = await this.checkOptimizedAsset(scene.sceneId);
+    }, (checked, total) => {
+      const progress = ((checked / total) * 100).toFixed(1);
+      console.log(`Worlds optimization check: ${progress}% (${checked}/${total} scenes)`);
+    });
 
-    // Fetch reports for non-optimized worlds to check for failures
-    console.log('\nFetching optimization reports for non-optimized worlds...');
-    const nonOptimizedWorlds = results.filter(w => !w.hasOptimizedAssets);
-    let reportsChecked = 0;
+    // Fetch reports for non-optimized scenes to check for failures
+    console.log('\nFetching optimization reports for non-optimized world scenes...');
+    const nonOptimizedScenes = scenes.filter(s => !s.hasOptimizedAssets);
     let reportsFound = 0;
     let failedCount = 0;
 
-    const reportBatchSize = 20;
-    for (let i = 0; i < nonOptimizedWorlds.length; i += reportBatchSize) {
-      const batch = nonOptimizedWorlds.slice(i, Math.min(i + reportBatchSize, nonOptimizedWorlds.length));
-
-      await Promise.all(
-        batch.map(async (world) => {
-          const report = await this.fetchOptimizationReport(world.sceneId);
-          if (report) {
-            world.optimizationReport = report;
-            reportsFound++;
-            if (report.fatalError) {
-              world.hasFailed = true;
-              failedCount++;
-            }
-          }
-        })
-      );
-
-      reportsChecked += batch.length;
-      const progress = (reportsChecked / nonOptimizedWorlds.length * 100).toFixed(1);
-      console.log(`World report check: ${progress}% (${reportsChecked}/${nonOptimizedWorlds.length}) - Found ${reportsFound} reports, ${failedCount} failed`);
-
-      await new Promise(resolve => setTimeout(resolve, 50));
-    }
+    await runAll(nonOptimizedScenes, async (scene) => {
+      const report = await this.fetchOptimizationReport(scene.sceneId);
+      if (report) {
+        scene.optimizationReport = report;
+        reportsFound++;
+        // Same rule as Genesis City: a report that did not succeed is a failure
+        if (!report.success) {
+          scene.hasFailed = true;
+          failedCount++;
+        }
+      }
+    }, (reportsChecked, total) => {
+      const progress = (reportsChecked / total * 100).toFixed(1);
+      console.log(`World report check: ${progress}% (${reportsChecked}/${total}) - Found ${reportsFound} reports, ${failedCount} failed`);
+    });
 
-    console.log(`Found ${reportsFound} optimization reports for worlds, ${failedCount} with fatal errors`);
+    console.log(`Found ${reportsFound} optimization reports for world scenes, ${failedCount} failed`);
+
+    const results: WorldWithOptimization[] = worldsWithScenes.map((world) => {
+      const primaryScene = world.scenes[0];
+      const worldScenes = world.scenes.map(scene => sceneResults.get(scene.id)!);
+      const status = getWorldOptimizationStatus(worldScenes);
+
+      return {
+        name: world.name,
+        sceneId: primaryScene.id,
+        title: primaryScene.title || 'Untitled',
+        thumbnail: primaryScene.thumbnail,
+        parcels: worldScenes.reduce((sum, scene) => sum + scene.parcels, 0),
+        hasOptimizedAssets: status === 'optimized',
+        hasFailed: worldScenes.some(scene => scene.hasFailed),
+        status,
+        scenes: worldScenes,
+        optimizationReport: worldScenes[0].optimizationReport,
+      };
+    });
 
-    // Sort: optimized first, then by name
+    // Sort: optimized first, then partially optimized, then by name
+    const statusOrder: Record<WorldOptimizationStatus, number> = { optimized: 0, partial: 1, 'not-optimized': 2 };
     results.sort((a, b) => {
-      if (a.hasOptimizedAssets !== b.hasOptimizedAssets) {
-        return a.hasOptimizedAssets ? -1 : 1;
+      if (a.status !== b.status) {
+        return statusOrder[a.status] - statusOrder[b.status];
       }
       return a.name.localeCompare(b.name);
     });
 
-    // Calculate stats
-    const optimizedCount = results.filter(w => w.hasOptimizedAssets).length;
-    const failedWorldsCount = results.filter(w => w.hasFailed).length;
+    // Calculate stats; failed worlds are the not-optimized ones with an unsuccessful report on any scene
+    const optimizedCount = results.filter(w => w.status === 'optimized').length;
+    const partialCount = results.filter(w => w.status === 'partial').length;
+    const failedWorldsCount = results.filter(w => w.status === 'not-optimized' && w.hasFailed).length;
     const stats: WorldsStats = {
       totalWorlds: results.length,
       optimizedWorlds: optimizedCount,
-      notOptimizedWorlds: results.length - optimizedCount - failedWorldsCount,
+      partiallyOptimizedWorlds: partialCount,
+      notOptimizedWorlds: results.length - optimizedCount - partialCount - failedWorldsCount,
       failedWorlds: failedWorldsCount,
       optimizationPercentage: results.length > 0
         ? Math.round((optimizedCount / results.length) * 1000) / 10
@@ -174,6 +175,7 @@ export class WorldsAPI {
     console.log(`\nWorlds optimization summary:`);
     console.log(`  - Total: ${stats.totalWorlds}`);
     console.log(`  - Optimized: ${stats.optimizedWorlds}`);
+    console.log(`  - Partially Optimized: ${stats.partiallyOptimizedWorlds}`);
     console.log(`  - Not Optimized: ${stats.notOptimizedWorlds}`);
     console.log(`  - Failed: ${stats.failedWorlds}`);
     console.log(`  - Percentage: ${stats.optimizationPercentage}%`);
@@ -0,0 +1,44 @@
+/**
+ * Arguments of a CLI subcommand: positionals, bare flags (`--json`) and
+ * flags with a value (`--format=csv`). Everything after `--` is positional.
+ */
+export class CommandArgs {
+  public readonly positionals: string[] = [];
+  private flags = new Map<string, string | true>();
+
+  constructor(argv: string[]) {
+    let flagsDone = false;
+    for (const arg of argv) {
+      if (flagsDone || !arg.startsWith('--')) {
+        this.positionals.push(arg);
+      } else if (arg === '--') {
+        flagsDone = true;
+      } else {
+        const [name, ...value] = arg.slice(2).split('=');
+        this.flags.set(name, value.length > 0 ? value.join('=') : true);
+      }
+    }
+  }
+
+  public has(name: string): boolean {
+    return this.flags.has(name);
+  }
+
+  // Value of --name=value; undefined when the flag is absent or given without a value
+  public get(name: string): string | undefined {
+    const value = this.flags.get(name);
+    return typeof value === 'string' ? value : undefined;
+  }
+
+  public get json(): boolean {
+    return this.has('json');
+  }
+
+  // Fail on flags the command does not know, so typos do not go unnoticed
+  public checkFlags(allowed: string[]): void {
+    const unknown = Array.from(this.flags.keys()).filter(name => !allowed.includes(name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown option ${unknown.map(name => `--${name}`).join(', ')} (expected ${allowed.map(name => `--${name}`).join(', ')})`);
+    }
+  }
+}
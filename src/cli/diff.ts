@@ -0,0 +1,67 @@
+import * as fs from 'fs';
+import { DiffScene, diffReports } from '../report-diff';
+import { ReportPayload, validateReportPayload } from '../shared/report-schema';
+import { CommandArgs } from './args';
+import { printJson } from './output';
+
+const DEFAULT_LIMIT = 20;
+
+function loadSnapshot(file: string): ReportPayload {
+  const validation = validateReportPayload(JSON.parse(fs.readFileSync(file, 'utf-8')));
+  if (!validation.valid) {
+    throw new Error(`${file} is not a comparable report: ${validation.errors.join('; ')}`);
+  }
+  return validation.payload;
+}
+
+function printScenes(title: string, scenes: DiffScene[], limit: number): void {
+  if (scenes.length === 0) return;
+
+  console.log(`\n${title} (${scenes.length}):`);
+  for (const scene of scenes.slice(0, limit)) {
+    console.log(`  ${scene.sceneId} at ${scene.baseParcel} (${scene.title || 'untitled'}, ${scene.parcels} parcels): ${scene.from ?? '—'} → ${scene.to ?? '—'}`);
+  }
+  if (scenes.length > limit) {
+    console.log(`  ...and ${scenes.length - limit} more`);
+  }
+}
+
+export async function diffCommand(args: CommandArgs): Promise<number> {
+  args.checkFlags(['json', 'limit']);
+  if (args.positionals.length !== 2) {
+    throw new Error('Expected two snapshot files, the older one first');
+  }
+  const limit = parseInt(args.get('limit') || String(DEFAULT_LIMIT), 10);
+  if (isNaN(limit) || limit < 0) {
+    throw new Error('--limit must be a number');
+  }
+
+  const [fromFile, toFile] = args.positionals;
+  const diff = diffReports(loadSnapshot(fromFile), loadSnapshot(toFile));
+
+  if (args.json) {
+    printJson(diff);
+    return 0;
+  }
+
+  console.log(`🔍 ${fromFile} (${new Date(diff.from.generatedAt).toISOString()}) → ${toFile} (${new Date(diff.to.generatedAt).toISOString()})`);
+  console.log(`  - Coverage: ${diff.from.optimizationPercentage.toFixed(1)}% → ${diff.to.optimizationPercentage.toFixed(1)}%`);
+  console.log(`  - Scenes: ${diff.from.totalScenes} → ${diff.to.totalScenes}`);
+  console.log(`  - Newly Optimized: ${diff.optimized.length}, Regressed: ${diff.regressed.length}, New: ${diff.added.length}, Removed: ${diff.removed.length}, Worlds Changed: ${diff.worlds.length}`);
+
+  printScenes('✅ Newly Optimized', diff.optimized, limit);
+  printScenes('⚠️ Regressed', diff.regressed, limit);
+  printScenes('🆕 New Scenes', diff.added, limit);
+  printScenes('🗑️ Removed Scenes', diff.removed, limit);
+
+  if (diff.worlds.length > 0) {
+    console.log(`\n🌍 Worlds (${diff.worlds.length}):`);
+    for (const world of diff.worlds.slice(0, limit)) {
+      console.log(`  ${world.name} (${world.title}): ${world.from ?? '—'} → ${world.to ?? '—'}`);
+    }
+    if (diff.worlds.length > limit) {
+      console.log(`  ...and ${diff.worlds.length - limit} more`);
+    }
+  }
+  return 0;
+}
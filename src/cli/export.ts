@@ -0,0 +1,72 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  EXPORT_COLUMNS,
+  EXPORT_DATASETS,
+  EXPORT_FORMATS,
+  ExportDataset,
+  ExportFormat,
+  filterExportRows,
+  formatExport,
+  getExportKey
+} from '../report-export';
+import { requireReportBucketStorage } from '../storage/object-storage';
+import { CommandArgs } from './args';
+import { printJson } from './output';
+
+// The published NDJSON export of a dataset, from a local publish directory or the reports bucket
+async function loadRows(dataset: ExportDataset, from: string | undefined): Promise<Record<string, unknown>[]> {
+  const key = getExportKey(dataset, 'ndjson');
+  const body = from
+    ? fs.readFileSync(path.join(from, key), 'utf-8')
+    : await requireReportBucketStorage().get(key);
+  if (body === null) {
+    throw new Error(`No published ${dataset} export found at ${key}`);
+  }
+  return body.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+}
+
+export async function exportCommand(args: CommandArgs): Promise<number> {
+  args.checkFlags(['json', 'format', 'from', 'out']);
+  const [dataset, ...filterArgs] = args.positionals as [ExportDataset, ...string[]];
+  if (!EXPORT_DATASETS.includes(dataset)) {
+    throw new Error(`Expected a dataset: ${EXPORT_DATASETS.join(', ')}`);
+  }
+  const format = (args.get('format') || 'csv') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    throw new Error(`Unsupported format '${format}', expected one of: ${EXPORT_FORMATS.join(', ')}`);
+  }
+
+  // Filters are column=value arguments, with comma-separated alternatives
+  const filters: [string, string[]][] = filterArgs.map(arg => {
+    const [name, ...value] = arg.split('=');
+    if (value.length === 0) {
+      throw new Error(`Expected a column=value filter, got '${arg}'`);
+    }
+    return [name, value.join('=').split(',')];
+  });
+
+  const columns: string[] = EXPORT_COLUMNS[dataset];
+  const rows = filterExportRows(await loadRows(dataset, args.get('from')), columns, filters);
+  if (typeof rows === 'string') {
+    throw new Error(rows);
+  }
+
+  const out = args.get('out');
+  if (!out) {
+    if (args.json) {
+      printJson(rows);
+    } else {
+      process.stdout.write(formatExport(rows, columns, format));
+    }
+    return 0;
+  }
+
+  fs.writeFileSync(out, formatExport(rows, columns, format));
+  if (args.json) {
+    printJson({ dataset, format, rows: rows.length, out });
+  } else {
+    console.log(`📄 Wrote ${rows.length} ${dataset} rows to ${out}`);
+  }
+  return 0;
+}
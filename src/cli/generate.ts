@@ -0,0 +1,64 @@
+import { runReportGeneration, runWorldsCheck } from '../report-runner';
+import { FixtureMode } from '../api/fixtures';
+import { CommandArgs } from './args';
+import { printJson, withLogsOnStderr } from './output';
+
+const FLAGS = ['json', 'skip-upload', 'only-worlds', 'incremental', 'full-refresh', 'no-resume', 'record', 'replay'];
+
+// Options of a full run that a worlds-only run has no use for
+const FULL_RUN_FLAGS = ['incremental', 'full-refresh', 'no-resume', 'record', 'replay'];
+
+// --record[=dir] / --replay[=dir] override FIXTURE_MODE and FIXTURE_DIR
+function getFixtureOptions(args: CommandArgs): { fixtureMode?: FixtureMode; fixtureDir?: string } {
+  for (const mode of ['record', 'replay'] as const) {
+    if (args.has(mode)) {
+      return { fixtureMode: mode, fixtureDir: args.get(mode) };
+    }
+  }
+  return {};
+}
+
+async function generateWorlds(args: CommandArgs): Promise<number> {
+  const conflicting = FULL_RUN_FLAGS.filter(name => args.has(name));
+  if (conflicting.length > 0) {
+    throw new Error(`--only-worlds cannot be combined with ${conflicting.map(name => `--${name}`).join(', ')}`);
+  }
+
+  const result = args.json ? await withLogsOnStderr(runWorldsCheck) : await runWorldsCheck();
+  if (args.json) {
+    printJson({ success: result.success, stats: result.stats ?? null, error: result.error ?? null });
+  }
+  return result.success ? 0 : 1;
+}
+
+export async function generateCommand(args: CommandArgs): Promise<number> {
+  args.checkFlags(FLAGS);
+  if (args.positionals.length > 0) {
+    throw new Error(`Unexpected argument '${args.positionals[0]}'`);
+  }
+
+  if (args.has('only-worlds')) {
+    return generateWorlds(args);
+  }
+
+  const run = () => runReportGeneration({
+    publishTargets: args.has('skip-upload') ? [] : undefined,
+    incremental: args.has('incremental') || undefined,
+    fullRefresh: args.has('full-refresh'),
+    resume: !args.has('no-resume'),
+    ...getFixtureOptions(args)
+  });
+  const result = args.json ? await withLogsOnStderr(run) : await run();
+
+  if (args.json) {
+    printJson({
+      success: result.success,
+      runId: result.runId ?? null,
+      resumed: !!result.resumed,
+      stats: result.stats ?? null,
+      published: result.published || [],
+      error: result.error ?? null
+    });
+  }
+  return result.success ? 0 : 1;
+}
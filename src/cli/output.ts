@@ -0,0 +1,15 @@
+// Print a command's result for scripts
+export function printJson(value: unknown): void {
+  process.stdout.write(JSON.stringify(value, null, 2) + '\n');
+}
+
+// Run a step with its progress logs moved to stderr, so stdout only carries the --json result
+export async function withLogsOnStderr<T>(run: () => Promise<T>): Promise<T> {
+  const log = console.log;
+  console.log = console.error;
+  try {
+    return await run();
+  } finally {
+    console.log = log;
+  }
+}
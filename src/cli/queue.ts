@@ -0,0 +1,54 @@
+import * as fs from 'fs';
+import { queueTasks } from '../server/logic/producer';
+import type { EntityType } from '../server/types';
+import { CommandArgs } from './args';
+import { printJson } from './output';
+
+const ENTITY_TYPES: EntityType[] = ['scene', 'wearable', 'emote'];
+
+// One id per line; blank lines and # comments are skipped
+function readIdFile(file: string): string[] {
+  return fs.readFileSync(file, 'utf-8')
+    .split('\n')
+    .map(line => line.replace(/#.*/, '').trim())
+    .filter(Boolean);
+}
+
+export async function queueCommand(args: CommandArgs): Promise<number> {
+  args.checkFlags(['json', 'file', 'type', 'prioritize']);
+  const entityType = (args.get('type') || 'scene') as EntityType;
+  if (!ENTITY_TYPES.includes(entityType)) {
+    throw new Error(`Unsupported entity type '${entityType}', expected one of: ${ENTITY_TYPES.join(', ')}`);
+  }
+
+  const file = args.get('file');
+  const ids = Array.from(new Set([...args.positionals, ...(file ? readIdFile(file) : [])]));
+  if (ids.length === 0) {
+    throw new Error('Expected entity ids as arguments or --file=<path>');
+  }
+
+  const producerUrl = process.env.PRODUCER_URL;
+  const secret = process.env.PRODUCER_TMP_SECRET;
+  if (!producerUrl || !secret) {
+    throw new Error('Producer not configured. Set PRODUCER_URL and PRODUCER_TMP_SECRET environment variables.');
+  }
+
+  const result = await queueTasks(
+    { fetch: (url, init) => globalThis.fetch(url, init) },
+    { producerUrl, secret },
+    ids.map(entityId => ({ entityId, entityType })),
+    { prioritize: args.has('prioritize') }
+  );
+
+  if (args.json) {
+    printJson({ total: ids.length, ...result });
+  } else if (!result.ok) {
+    console.error(`❌ ${result.error} (status ${result.status})`);
+  } else {
+    console.log(`📤 Queued ${result.queued} of ${ids.length} ${entityType}s${args.has('prioritize') ? ' with priority' : ''}`);
+    for (const failed of result.results.failed) {
+      console.log(`  ❌ ${failed.entityId || failed.sceneId || 'unknown'}: ${failed.error}`);
+    }
+  }
+  return result.ok && result.failed === 0 ? 0 : 1;
+}
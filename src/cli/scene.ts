@@ -0,0 +1,84 @@
+import { DecentralandAPI } from '../api/decentraland';
+import { getReportFailure } from '../api/report-parser';
+import { PATHS } from '../config';
+import { CommandArgs } from './args';
+import { printJson, withLogsOnStderr } from './output';
+
+function formatBytes(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+export async function sceneCommand(args: CommandArgs): Promise<number> {
+  args.checkFlags(['json']);
+  const [target] = args.positionals;
+  if (!target || args.positionals.length > 1) {
+    throw new Error('Expected one entity id or parcel, e.g. scene 12,-4');
+  }
+
+  const api = new DecentralandAPI();
+  const lookup = async () => {
+    const scene = await api.fetchScene(target);
+    return scene ? api.checkScene(scene) : null;
+  };
+  const scene = args.json ? await withLogsOnStderr(lookup) : await lookup();
+
+  if (!scene) {
+    if (args.json) {
+      printJson({ found: false, query: target });
+    } else {
+      console.log(`No active scene ${target.includes(',') ? 'on parcel' : 'with id'} ${target}`);
+    }
+    return 1;
+  }
+
+  const report = scene.optimizationReport;
+  const failure = report ? getReportFailure(report) : undefined;
+  const status = scene.hasOptimizedAssets ? 'optimized' : report?.success === false ? 'failed' : 'not-optimized';
+  const deployedAt = scene.timestamp ? new Date(scene.timestamp).toISOString() : null;
+
+  if (args.json) {
+    printJson({
+      found: true,
+      sceneId: scene.id,
+      title: scene.metadata?.display?.title || '',
+      baseParcel: scene.metadata?.scene?.base || scene.pointers[0] || '',
+      pointers: scene.pointers,
+      deployedAt,
+      status,
+      hasOptimizedAssets: !!scene.hasOptimizedAssets,
+      assetUrl: PATHS.getOptimizedAssetUrl(scene.id),
+      reportUrl: PATHS.getReportUrl(scene.id),
+      report: report ?? null,
+      failure: failure ?? null
+    });
+    return 0;
+  }
+
+  console.log(`🏙️ ${scene.metadata?.display?.title || 'Untitled scene'} (${scene.id})`);
+  console.log(`  - Base Parcel: ${scene.metadata?.scene?.base || scene.pointers[0]}`);
+  console.log(`  - Parcels: ${scene.pointers.length}`);
+  console.log(`  - Deployed: ${deployedAt || 'unknown'}`);
+  console.log(`  - Status: ${status}`);
+  console.log(`  - Optimized Assets: ${scene.hasOptimizedAssets ? `✅ ${PATHS.getOptimizedAssetUrl(scene.id)}` : '❌ none'}`);
+
+  if (!report) {
+    console.log('  - Report: none');
+    return 0;
+  }
+
+  console.log(`  - Report: ${report.success ? '✅ success' : '❌ failed'}${report.timestamp ? ` at ${report.timestamp}` : ''} (${PATHS.getReportUrl(scene.id)})`);
+  if (report.error) {
+    console.log(`  - Error: ${report.error}`);
+  }
+  if (failure) {
+    console.log(`  - Failure: ${failure.category} (${failure.code})`);
+  }
+  const details = report.details || {};
+  if (details.originalSize !== undefined && details.optimizedSize !== undefined) {
+    console.log(`  - Size: ${formatBytes(details.originalSize)} → ${formatBytes(details.optimizedSize)}`);
+  }
+  if (details.processingTime !== undefined) {
+    console.log(`  - Processing Time: ${(details.processingTime / 1000).toFixed(1)}s`);
+  }
+  return 0;
+}
@@ -1,14 +1,145 @@
 // Centralized configuration for the backend
 
+// Parse a comma-separated list from an environment variable
+function parseList(value: string | undefined, fallback: string[]): string[] {
+  const items = (value || '').split(',').map(item => item.trim().replace(/\/+$/, '')).filter(Boolean);
+  return items.length > 0 ? items : fallback;
+}
+
+// Parse planner hotspots: "name@x,y/radius" entries separated by semicolons
+function parseHotspots(value: string | undefined): { name: string; x: number; y: number; radius: number }[] {
+  return (value || '').split(';').map(item => item.trim()).filter(Boolean).flatMap(item => {
+    const match = item.match(/^(.+)@(-?\d+),\s*(-?\d+)\/(\d+(?:\.\d+)?)$/);
+    if (!match) {
+      console.warn(`Ignoring malformed planner hotspot "${item}" (expected name@x,y/radius)`);
+      return [];
+    }
+    return [{ name: match[1].trim(), x: parseInt(match[2], 10), y: parseInt(match[3], 10), radius: parseFloat(match[4]) }];
+  });
+}
+
+// API version for optimized assets (the one scenes are reported against)
+const OPTIMIZATION_API_VERSION = 'v3';
+
 export const CONFIG = {
   // API version for optimized assets
-  OPTIMIZATION_API_VERSION: 'v3',
+  OPTIMIZATION_API_VERSION,
+
+  // All versions to measure coverage for; the primary version is always included
+  OPTIMIZATION_API_VERSIONS: Array.from(new Set([
+    OPTIMIZATION_API_VERSION,
+    ...parseList(process.env.OPTIMIZATION_API_VERSIONS, [])
+  ])),
 
   // Base URL for optimization assets
   OPTIMIZATION_BASE_URL: 'https://optimized-assets.dclexplorer.com',
 
   // S3/R2 bucket name
   S3_BUCKET: process.env.S3_BUCKET || 'optimized-assets',
+
+  // Bucket the generated report is uploaded to
+  REPORTS_BUCKET: process.env.REPORTS_BUCKET || 'reports',
+
+  // Public URL of the reports bucket
+  REPORTS_BASE_URL: (process.env.REPORTS_BASE_URL || 'https://reports.dclexplorer.com').replace(/\/+$/, ''),
+
+  // Where a generated report is published, in order: "s3" (reports bucket), "local" (PUBLISH_LOCAL_DIR),
+  // "webhook" (WEBHOOK_URL); the report server adds "report-storage" and "database"
+  PUBLISH_TARGETS: parseList(process.env.PUBLISH_TARGETS, [
+    's3',
+    ...(process.env.WEBHOOK_URL || process.env.VERCEL_URL ? ['webhook'] : [])
+  ]),
+
+  // Directory the "local" publish target writes to, laid out like the reports bucket
+  PUBLISH_LOCAL_DIR: process.env.PUBLISH_LOCAL_DIR || 'reports/published',
+
+  // URL the "webhook" publish target posts the run's stats to (defaults to the Vercel history endpoint)
+  WEBHOOK_URL: process.env.WEBHOOK_URL || (process.env.VERCEL_URL ? `${process.env.VERCEL_URL}/api/update-history` : ''),
+
+  // History snapshot retention: keep every snapshot for HISTORY_KEEP_ALL_DAYS, one per day up to
+  // HISTORY_KEEP_DAILY_DAYS, then one per week up to HISTORY_KEEP_WEEKLY_DAYS (0 keeps weekly snapshots forever)
+  HISTORY_RETENTION: {
+    keepAllDays: parseFloat(process.env.HISTORY_KEEP_ALL_DAYS || '7'),
+    keepDailyDays: parseFloat(process.env.HISTORY_KEEP_DAILY_DAYS || '90'),
+    keepWeeklyDays: parseFloat(process.env.HISTORY_KEEP_WEEKLY_DAYS || '0')
+  },
+
+  // Where bucket operations go: "s3" for S3/R2, or "local" for a directory tree under LOCAL_STORAGE_DIR
+  STORAGE_BACKEND: (process.env.STORAGE_BACKEND === 'local' ? 'local' : 's3') as 's3' | 'local',
+
+  // Root of the local storage backend, one subdirectory per bucket (e.g. storage/optimized-assets/v3/{sceneId}-mobile.zip)
+  LOCAL_STORAGE_DIR: process.env.LOCAL_STORAGE_DIR || 'storage',
+
+  // Where the per-scene state of the last run is kept (used by incremental runs)
+  SCENE_STATE_PATH: process.env.SCENE_STATE_PATH || 'reports/scene-state.json',
+
+  // How long a scene's state is trusted before it is re-checked in incremental mode
+  SCENE_STATE_TTL_HOURS: parseFloat(process.env.SCENE_STATE_TTL_HOURS || '24'),
+
+  // Reuse the previous run's per-scene state by default
+  INCREMENTAL: process.env.REPORT_INCREMENTAL === 'true',
+
+  // Content servers used for the Genesis City sweep, in order of preference
+  CONTENT_SERVER_URLS: parseList(process.env.CONTENT_SERVER_URLS, ['https://peer.decentraland.org/content']),
+
+  // Worlds content servers, in order of preference
+  WORLDS_SERVER_URLS: parseList(process.env.WORLDS_SERVER_URLS, ['https://worlds-content-server.decentraland.org']),
+
+  // Lambdas server used to list wearable and emote collections
+  LAMBDAS_URL: (process.env.LAMBDAS_URL || 'https://peer.decentraland.org/lambdas').replace(/\/+$/, ''),
+
+  // Region definition file; per-region coverage is reported when it exists (see regions.example.json)
+  REGIONS_FILE: process.env.REGIONS_FILE || 'regions.json',
+
+  // Priority planner: how unoptimized and failed scenes are ranked for the "optimize next" list.
+  // Each weight scales one factor; hotspots boost scenes within their radius (in parcels), most near the center
+  PLANNER: {
+    hotspots: parseHotspots(process.env.PLANNER_HOTSPOTS || 'Genesis Plaza@0,0/40'),
+    weights: {
+      parcels: parseFloat(process.env.PLANNER_PARCEL_WEIGHT || '1'),
+      hotspot: parseFloat(process.env.PLANNER_HOTSPOT_WEIGHT || '3'),
+      recency: parseFloat(process.env.PLANNER_RECENCY_WEIGHT || '2'),
+      failures: parseFloat(process.env.PLANNER_FAILURE_WEIGHT || '1')
+    },
+    // A deployment this many days old gets half the recency score of a brand new one
+    recencyHalfLifeDays: parseFloat(process.env.PLANNER_RECENCY_HALF_LIFE_DAYS || '90'),
+    // Number of scenes kept in the plan
+    limit: parseInt(process.env.PLANNER_LIMIT || '500', 10)
+  },
+
+  // Collection entity types whose coverage is measured ("none" disables the step)
+  REPORT_ENTITY_TYPES: parseList(process.env.REPORT_ENTITY_TYPES, ['wearable', 'emote'])
+    .filter((type): type is 'wearable' | 'emote' => type === 'wearable' || type === 'emote'),
+
+  // Sample pointer batches from two content servers and report entity-id disagreements
+  CONSISTENCY_CHECK: process.env.CONSISTENCY_CHECK === 'true',
+
+  // Sample one out of every N pointer batches when the consistency check is enabled
+  CONSISTENCY_SAMPLE_EVERY: parseInt(process.env.CONSISTENCY_SAMPLE_EVERY || '10', 10),
+
+  // Where in-progress runs are checkpointed so they can be resumed after a crash
+  CHECKPOINT_DIR: process.env.CHECKPOINT_DIR || 'reports/checkpoints',
+
+  // Minimum time between checkpoint writes while fetching reports
+  CHECKPOINT_INTERVAL_SECONDS: parseFloat(process.env.CHECKPOINT_INTERVAL_SECONDS || '30'),
+
+  // Interrupted runs older than this are discarded instead of resumed
+  CHECKPOINT_MAX_AGE_HOURS: parseFloat(process.env.CHECKPOINT_MAX_AGE_HOURS || '12'),
+
+  // Record every outbound response of a run into FIXTURE_DIR, or replay a recorded run from it ("off", "record", "replay")
+  FIXTURE_MODE: (['record', 'replay'].includes(process.env.FIXTURE_MODE || '') ? process.env.FIXTURE_MODE : 'off') as 'off' | 'record' | 'replay',
+
+  // Fixture directory; fixture runs also keep their scene state and checkpoints here
+  FIXTURE_DIR: process.env.FIXTURE_DIR || 'fixtures/latest',
+
+  // Outbound requests: maximum in-flight requests per host (the limit adapts below this)
+  REQUEST_MAX_CONCURRENCY: parseInt(process.env.REQUEST_MAX_CONCURRENCY || '20', 10),
+
+  // Outbound requests: maximum requests per second per host
+  REQUEST_RATE_PER_SECOND: parseFloat(process.env.REQUEST_RATE_PER_SECOND || '50'),
+
+  // Outbound requests: a host counts as slowing down when its latency exceeds its baseline by this factor
+  REQUEST_SLOWDOWN_FACTOR: parseFloat(process.env.REQUEST_SLOWDOWN_FACTOR || '3'),
 } as const;
 
 // Derived URLs and paths
@@ -23,6 +154,11 @@ export const PATHS = {
     return `${CONFIG.OPTIMIZATION_API_VERSION}/`;
   },
 
+  // Get S3 key prefix for optimized assets of a specific API version
+  getS3Prefix(version: string) {
+    return `${version}/`;
+  },
+
   // Get scene optimized asset URL
   getOptimizedAssetUrl(sceneId: string) {
     return `${this.optimizationApiUrl}/${sceneId}-mobile.zip`;
@@ -34,12 +170,12 @@ export const PATHS = {
   },
 
   // Get S3 key for optimized asset
-  getOptimizedAssetKey(sceneId: string) {
-    return `${CONFIG.OPTIMIZATION_API_VERSION}/${sceneId}-mobile.zip`;
+  getOptimizedAssetKey(sceneId: string, version: string = CONFIG.OPTIMIZATION_API_VERSION) {
+    return `${version}/${sceneId}-mobile.zip`;
   },
 
   // Get S3 key for report
-  getReportKey(sceneId: string) {
-    return `${CONFIG.OPTIMIZATION_API_VERSION}/${sceneId}-report.json`;
+  getReportKey(sceneId: string, version: string = CONFIG.OPTIMIZATION_API_VERSION) {
+    return `${version}/${sceneId}-report.json`;
   },
 } as const;
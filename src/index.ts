@@ -1,10 +1,69 @@
-import { runReportGeneration } from './report-runner';
+// Loaded before the commands, whose modules read the environment when imported
+import 'dotenv/config';
+import { CommandArgs } from './cli/args';
+import { generateCommand } from './cli/generate';
+import { sceneCommand } from './cli/scene';
+import { diffCommand } from './cli/diff';
+import { exportCommand } from './cli/export';
+import { queueCommand } from './cli/queue';
 
-async function main() {
-  const result = await runReportGeneration();
-  if (!result.success) {
-    process.exit(1);
+const COMMANDS: Record<string, (args: CommandArgs) => Promise<number>> = {
+  generate: generateCommand,
+  scene: sceneCommand,
+  diff: diffCommand,
+  export: exportCommand,
+  queue: queueCommand
+};
+
+const USAGE = `Usage: node dist/index.js <command> [options]
+
+Commands:
+  generate                      Generate and publish the report (the default command)
+      --skip-upload             Generate without publishing
+      --only-worlds             Check worlds only, without Genesis City; nothing is published
+      --incremental             Only re-check new, report-less or expired scenes
+      --full-refresh            Re-check every scene even when REPORT_INCREMENTAL=true
+      --no-resume               Start from scratch instead of resuming an interrupted run
+      --record[=dir]            Record every outbound response into a fixture directory
+      --replay[=dir]            Replay a recorded run from a fixture directory
+  scene <id|x,y>                Live optimization status and latest report of one scene
+  diff <a.json> <b.json>        Compare two report snapshot files, the older one first
+      --limit=N                 Scenes listed per section (default 20)
+  export <scenes|worlds> [column=value,...]
+                                Print the latest published export, filtered by column
+      --format=csv|ndjson       Output format (default csv)
+      --from=dir                Read a local publish directory instead of the reports bucket
+      --out=file                Write to a file instead of stdout
+  queue [id...]                 Submit entities to the producer's queue
+      --file=path               Read ids from a file, one per line
+      --type=scene|wearable|emote
+      --prioritize              Put them at the front of the queue
+
+Every command accepts --json to print a machine-readable result on stdout.`;
+
+async function main(): Promise<number> {
+  const [first, ...rest] = process.argv.slice(2);
+  if (first === 'help' || first === '--help' || first === '-h') {
+    console.log(USAGE);
+    return 0;
+  }
+
+  // Without a command (or with only flags) the CLI generates the report, as it always did
+  const command = !first || first.startsWith('--') ? 'generate' : first;
+  const run = COMMANDS[command];
+  if (!run) {
+    console.error(`Unknown command '${command}'\n\n${USAGE}`);
+    return 2;
+  }
+
+  try {
+    return await run(new CommandArgs(command === first ? rest : process.argv.slice(2)));
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    return 1;
   }
 }
 
-main().catch(console.error);
+main().then(code => {
+  process.exitCode = code;
+});
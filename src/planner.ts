@@ -0,0 +1,119 @@
+import { WorldData } from './types';
+
+export interface Hotspot {
+  name: string;
+  x: number;
+  y: number;
+  radius: number; // in parcels
+}
+
+export interface PlannerOptions {
+  hotspots: Hotspot[];
+  weights: {
+    parcels: number;
+    hotspot: number;
+    recency: number;
+    failures: number;
+  };
+  recencyHalfLifeDays: number;
+  limit: number;
+}
+
+// Weighted contribution of each input to a scene's score
+export interface PlanFactors {
+  parcels: number;
+  hotspot: number;
+  recency: number;
+  failures: number;
+}
+
+export interface PlannedScene {
+  rank: number;
+  sceneId: string;
+  title: string;
+  baseParcel: string;
+  parcels: number;
+  status: 'not-optimized' | 'failed';
+  failureCount: number;
+  deployedAt: number | null;
+  nearestHotspot: string | null;
+  score: number;
+  factors: PlanFactors;
+}
+
+export interface PriorityPlan {
+  generatedAt: string;
+  candidates: number; // unoptimized and failed scenes considered
+  scenes: PlannedScene[]; // best first, at most the configured limit
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Ranks the scenes without optimized assets by how much optimizing them would
+ * matter: bigger scenes, scenes near hotspots and recent deployments score
+ * higher, scenes that already failed repeatedly score lower (they tend to fail again).
+ */
+export class PriorityPlanner {
+  constructor(private options: PlannerOptions) {}
+
+  public plan(worldData: WorldData, getFailureCount: (sceneId: string) => number, now: number = Date.now()): PriorityPlan {
+    const { weights } = this.options;
+    const planned: PlannedScene[] = [];
+
+    worldData.scenes.forEach((scene, sceneId) => {
+      if (scene.hasOptimizedAssets) return;
+
+      const parcels = scene.pointers.map(pointer => pointer.split(',').map(Number) as [number, number]);
+      const failureCount = Math.max(getFailureCount(sceneId), scene.optimizationReport?.success === false ? 1 : 0);
+      const hotspot = this.getHotspotProximity(parcels);
+      const recency = scene.timestamp
+        ? Math.pow(0.5, Math.max(0, now - scene.timestamp) / DAY_MS / this.options.recencyHalfLifeDays)
+        : 0;
+
+      const factors: PlanFactors = {
+        parcels: weights.parcels * Math.log2(1 + parcels.length),
+        hotspot: weights.hotspot * hotspot.proximity,
+        recency: weights.recency * recency,
+        failures: -weights.failures * Math.log2(1 + failureCount)
+      };
+
+      planned.push({
+        rank: 0,
+        sceneId,
+        title: scene.metadata?.display?.title || '',
+        baseParcel: scene.metadata?.scene?.base || scene.pointers[0] || '',
+        parcels: parcels.length,
+        status: scene.optimizationReport?.success === false ? 'failed' : 'not-optimized',
+        failureCount,
+        deployedAt: scene.timestamp ?? null,
+        nearestHotspot: hotspot.name,
+        score: factors.parcels + factors.hotspot + factors.recency + factors.failures,
+        factors
+      });
+    });
+
+    const scenes = planned
+      .sort((a, b) => b.score - a.score || a.sceneId.localeCompare(b.sceneId))
+      .slice(0, this.options.limit)
+      .map((entry, index) => ({ ...entry, rank: index + 1 }));
+
+    return { generatedAt: new Date(now).toISOString(), candidates: planned.length, scenes };
+  }
+
+  // 1 at a hotspot's center, falling linearly to 0 at its radius; the closest parcel of the scene counts
+  private getHotspotProximity(parcels: [number, number][]): { proximity: number; name: string | null } {
+    let best = { proximity: 0, name: null as string | null };
+
+    for (const hotspot of this.options.hotspots) {
+      for (const [x, y] of parcels) {
+        const proximity = 1 - Math.hypot(x - hotspot.x, y - hotspot.y) / hotspot.radius;
+        if (proximity > best.proximity) {
+          best = { proximity, name: hotspot.name };
+        }
+      }
+    }
+
+    return best;
+  }
+}
@@ -1,4 +1,7 @@
-import { Scene, LandData, WorldData } from './types';
+import { Scene, LandData, WorldData, CollectionItem, CollectionEntityType, EntityCoverage, FailureCategory, RedeployRegression } from './types';
+import { ReportStats, VersionCoverage, VersionMigration } from './shared/report-schema';
+import { getReportFailure } from './api/report-parser';
+import { RegionCoverage, RegionDefinition, getRegionPointers } from './regions';
 
 export class DataProcessor {
   private lands: Map<string, LandData> = new Map();
@@ -37,30 +40,39 @@ export class DataProcessor {
     };
   }
 
-  public getStatistics(worldData: WorldData): {
-    totalLands: number;
-    occupiedLands: number;
-    emptyLands: number;
-    totalScenes: number;
-    averageLandsPerScene: number;
-    scenesWithOptimizedAssets: number;
-    scenesWithoutOptimizedAssets: number;
-    optimizationPercentage: number;
-    scenesWithReports: number;
-    successfulOptimizations: number;
-    failedOptimizations: number;
-  } {
+  // Mark parcels whose previously optimized entity was replaced by an unoptimized one
+  public applyRedeployRegressions(worldData: WorldData, regressions: RedeployRegression[]): void {
+    for (const regression of regressions) {
+      const land = worldData.lands.get(regression.pointer);
+      if (land && land.sceneId === regression.sceneId) {
+        land.redeploy = regression;
+      }
+    }
+  }
+
+  public getStatistics(worldData: WorldData): ReportStats {
     let occupiedLands = 0;
     let scenesWithOptimizedAssets = 0;
     let scenesWithoutOptimizedAssets = 0;
     let scenesWithReports = 0;
     let successfulOptimizations = 0;
     let failedOptimizations = 0;
+    let scenesWithMetrics = 0;
+    let totalOriginalSize = 0;
+    let totalOptimizedSize = 0;
+    let compressionRatioSum = 0;
+    let regressedParcels = 0;
+    const regressedScenes = new Set<string>();
+    const failureCategories: Partial<Record<FailureCategory, number>> = {};
     
     worldData.lands.forEach(land => {
       if (land.sceneId) {
         occupiedLands++;
       }
+      if (land.redeploy) {
+        regressedParcels++;
+        regressedScenes.add(land.redeploy.sceneId);
+      }
     });
 
     worldData.scenes.forEach(scene => {
@@ -76,6 +88,17 @@ export class DataProcessor {
           successfulOptimizations++;
         } else {
           failedOptimizations++;
+          const failure = getReportFailure(scene.optimizationReport)!;
+          failureCategories[failure.category] = (failureCategories[failure.category] || 0) + 1;
+        }
+
+        // Only scenes with both sizes contribute to the size aggregates
+        const metrics = scene.optimizationReport.metrics;
+        if (metrics?.originalSize && metrics.optimizedSize !== undefined) {
+          scenesWithMetrics++;
+          totalOriginalSize += metrics.originalSize;
+          totalOptimizedSize += metrics.optimizedSize;
+          compressionRatioSum += metrics.optimizedSize / metrics.originalSize;
         }
       }
     });
@@ -85,6 +108,7 @@ export class DataProcessor {
     const totalScenes = worldData.scenes.size;
     const averageLandsPerScene = totalScenes > 0 ? occupiedLands / totalScenes : 0;
     const optimizationPercentage = totalScenes > 0 ? (scenesWithOptimizedAssets / totalScenes) * 100 : 0;
+    const meanCompressionRatio = scenesWithMetrics > 0 ? compressionRatioSum / scenesWithMetrics : 0;
 
     return {
       totalLands,
@@ -97,7 +121,114 @@ export class DataProcessor {
       optimizationPercentage,
       scenesWithReports,
       successfulOptimizations,
-      failedOptimizations
+      failedOptimizations,
+      scenesWithMetrics,
+      totalOriginalSize,
+      totalOptimizedSize,
+      bytesSaved: totalOriginalSize - totalOptimizedSize,
+      meanCompressionRatio,
+      failureCategories,
+      regressedParcels,
+      regressedScenes: regressedScenes.size
     };
   }
-}
\ No newline at end of file
+
+  /**
+   * Per-version coverage plus a migration breakdown of every other version
+   * against the primary one (the first in the list).
+   */
+  public getVersionCoverage(worldData: WorldData, versions: string[]): {
+    versionCoverage: Record<string, VersionCoverage>;
+    migration: VersionMigration[];
+  } {
+    const totalScenes = worldData.scenes.size;
+    const [primary, ...others] = versions;
+    const versionCoverage: Record<string, VersionCoverage> = {};
+
+    for (const version of versions) {
+      let optimized = 0;
+      worldData.scenes.forEach(scene => {
+        if (scene.optimizedVersions?.includes(version)) optimized++;
+      });
+      versionCoverage[version] = {
+        scenesWithOptimizedAssets: optimized,
+        optimizationPercentage: totalScenes > 0 ? (optimized / totalScenes) * 100 : 0
+      };
+    }
+
+    const migration = others.map(from => {
+      const entry: VersionMigration = { from, to: primary, onlyInFrom: 0, onlyInTo: 0, inBoth: 0, inNeither: 0 };
+      worldData.scenes.forEach(scene => {
+        const inFrom = scene.optimizedVersions?.includes(from) || false;
+        const inTo = scene.optimizedVersions?.includes(primary) || false;
+        if (inFrom && inTo) entry.inBoth++;
+        else if (inFrom) entry.onlyInFrom++;
+        else if (inTo) entry.onlyInTo++;
+        else entry.inNeither++;
+      });
+      return entry;
+    });
+
+    return { versionCoverage, migration };
+  }
+
+  // Coverage of each region, counting every scene with at least one parcel inside it
+  public getRegionStatistics(worldData: WorldData, regions: RegionDefinition[]): RegionCoverage[] {
+    return regions.map(region => {
+      const pointers = getRegionPointers(region);
+      const sceneIds = new Set<string>();
+      let occupiedLands = 0;
+
+      pointers.forEach(pointer => {
+        const sceneId = worldData.lands.get(pointer)?.sceneId;
+        if (sceneId) {
+          occupiedLands++;
+          sceneIds.add(sceneId);
+        }
+      });
+
+      let scenesWithOptimizedAssets = 0;
+      let failedOptimizations = 0;
+      sceneIds.forEach(sceneId => {
+        const scene = worldData.scenes.get(sceneId);
+        if (scene?.hasOptimizedAssets) scenesWithOptimizedAssets++;
+        if (scene?.optimizationReport && !scene.optimizationReport.success) failedOptimizations++;
+      });
+
+      return {
+        region,
+        stats: {
+          totalLands: pointers.size,
+          occupiedLands,
+          totalScenes: sceneIds.size,
+          scenesWithOptimizedAssets,
+          failedOptimizations,
+          optimizationPercentage: sceneIds.size > 0 ? (scenesWithOptimizedAssets / sceneIds.size) * 100 : 0
+        }
+      };
+    });
+  }
+
+  // Coverage of wearables and emotes, counted the same way as scenes
+  public getEntityCoverage(items: CollectionItem[], types: CollectionEntityType[]): EntityCoverage {
+    const coverage: EntityCoverage = {};
+
+    for (const type of types) {
+      const ofType = items.filter(item => item.type === type);
+      const optimized = ofType.filter(item => item.hasOptimizedAssets).length;
+      const withReports = ofType.filter(item => item.optimizationReport).length;
+      const failed = ofType.filter(item => item.optimizationReport && !item.optimizationReport.success).length;
+
+      coverage[type] = {
+        total: ofType.length,
+        optimized,
+        notOptimized: ofType.length - optimized,
+        withReports,
+        failed,
+        optimizationPercentage: ofType.length > 0 ? (optimized / ofType.length) * 100 : 0
+      };
+    }
+
+    return coverage;
+  }
+}
@@ -0,0 +1,110 @@
+import { ObjectStorage } from '../storage/object-storage';
+import { HISTORY_INDEX_KEY, ReportHistory, getSnapshotKey } from '../report-history';
+import { formatEncodedSizes } from '../report-encoding';
+import { EXPORT_COLUMNS, EXPORT_DATASETS, EXPORT_FORMATS, formatExport, getExportContentType, getExportKey } from '../report-export';
+import { PublishedReport, ReportPublisher } from './report-publisher';
+
+/**
+ * Upload the report, its exports and a history snapshot to a bucket, then
+ * update the bucket's metadata file and history index. Used for both the
+ * S3/R2 reports bucket and local directories.
+ */
+export class BucketPublisher implements ReportPublisher {
+  constructor(
+    public readonly target: 's3' | 'local',
+    private storage: ObjectStorage,
+    private baseUrl: string
+  ) {}
+
+  public async publish({ reportData, encoded, reportExport, plan, timestamp }: PublishedReport): Promise<{ url?: string }> {
+    console.log(`\n📤 Uploading report data to ${this.storage.description}...`);
+    
+    // Main report data
+    const mainReportKey = 'optimization-pipeline/report.json';
+    const mainReportData = encoded.variants.identity;
+    
+    console.log(`   Uploading main report (${formatEncodedSizes(encoded)})...`);
+    
+    await this.storage.put(mainReportKey, mainReportData, {
+      contentType: 'application/json',
+      cacheControl: 'public, max-age=3600' // Cache for 1 hour
+    });
+
+    // Pre-encoded copies; clients that fetch them decode transparently through Content-Encoding
+    const encodedReportUrls: Record<string, string> = {};
+    for (const [encoding, extension] of [['gzip', 'gz'], ['br', 'br']] as const) {
+      const key = `${mainReportKey}.${extension}`;
+      await this.storage.put(key, encoded.variants[encoding], {
+        contentType: 'application/json',
+        contentEncoding: encoding,
+        cacheControl: 'public, max-age=3600' // Same lifetime as the main report
+      });
+      encodedReportUrls[encoding] = `${this.baseUrl}/${key}`;
+    }
+    
+    // Tabular exports next to the main report
+    const exportUrls: Record<string, string> = {};
+    console.log('   Uploading scene and world exports...');
+    for (const dataset of EXPORT_DATASETS) {
+      for (const format of EXPORT_FORMATS) {
+        const key = getExportKey(dataset, format);
+        const body = dataset === 'scenes'
+          ? formatExport(reportExport.scenes, EXPORT_COLUMNS.scenes, format)
+          : formatExport(reportExport.worlds, EXPORT_COLUMNS.worlds, format);
+
+        await this.storage.put(key, body, {
+          contentType: getExportContentType(format),
+          cacheControl: 'public, max-age=3600' // Same lifetime as the main report
+        });
+        exportUrls[`${dataset}.${format}`] = `${this.baseUrl}/${key}`;
+      }
+    }
+    
+    // "Optimize next" list of the run
+    const planKey = 'optimization-pipeline/priority-plan.json';
+    console.log(`   Uploading priority plan (${plan.scenes.length} scenes)...`);
+    await this.storage.put(planKey, JSON.stringify(plan), {
+      contentType: 'application/json',
+      cacheControl: 'public, max-age=3600' // Same lifetime as the main report
+    });
+
+    // Also save a timestamped version for history
+    const historyKey = getSnapshotKey(timestamp);
+    
+    console.log('   Saving historical snapshot...');
+    
+    await this.storage.put(historyKey, mainReportData, {
+      contentType: 'application/json',
+      cacheControl: 'public, max-age=31536000' // Cache historical data for 1 year
+    });
+
+    console.log('   Updating history index...');
+    const { index, pruned } = await new ReportHistory(this.storage, this.baseUrl).addSnapshot(historyKey, timestamp, reportData);
+    console.log(`   ${index.snapshots.length} snapshots indexed, ${pruned.length} pruned by the retention policy`);
+    
+    // Update metadata file with latest info
+    const metadata = {
+      lastUpdated: timestamp,
+      formatVersion: reportData.v,
+      stats: reportData.s,
+      totalLands: reportData.l.length,
+      reportUrl: `${this.baseUrl}/${mainReportKey}`,
+      reportEtag: encoded.etag,
+      encodedReportUrls,
+      historyUrl: `${this.baseUrl}/${historyKey}`,
+      historyIndexUrl: `${this.baseUrl}/${HISTORY_INDEX_KEY}`,
+      exportUrls,
+      priorityPlanUrl: `${this.baseUrl}/${planKey}`
+    };
+    
+    console.log('   Updating metadata...');
+    
+    await this.storage.put('optimization-pipeline/metadata.json', JSON.stringify(metadata), {
+      contentType: 'application/json',
+      cacheControl: 'public, max-age=300' // Cache metadata for 5 minutes
+    });
+    
+    console.log(`✅ Report data uploaded to ${this.storage.description} successfully!`);
+    return { url: `${this.baseUrl}/${mainReportKey}` };
+  }
+}
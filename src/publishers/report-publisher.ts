@@ -0,0 +1,80 @@
+import * as path from 'path';
+import { CONFIG } from '../config';
+import { ReportPayload } from '../shared/report-schema';
+import { ReportExport } from '../report-export';
+import { EncodedReport } from '../report-encoding';
+import { PriorityPlan } from '../planner';
+import { LocalObjectStorage } from '../storage/local-storage';
+import { requireReportBucketStorage } from '../storage/object-storage';
+import { BucketPublisher } from './bucket-publisher';
+import { WebhookPublisher } from './webhook-publisher';
+
+// Built-in targets, plus the ones only the report server can provide
+export type PublishTarget = 's3' | 'local' | 'webhook' | 'report-storage' | 'database';
+
+// Everything a target may publish; all targets of a run share the timestamp and encoded variants
+export interface PublishedReport {
+  reportData: ReportPayload;
+  encoded: EncodedReport;
+  reportExport: ReportExport;
+  plan: PriorityPlan;
+  timestamp: string;
+}
+
+export interface ReportPublisher {
+  readonly target: PublishTarget;
+  // Resolves with the public URL of the report when the target has one; throws on failure
+  publish(report: PublishedReport): Promise<{ url?: string }>;
+}
+
+export interface PublishResult {
+  target: string;
+  success: boolean;
+  url?: string;
+  error?: string;
+  durationMs: number;
+}
+
+function createPublisher(target: string): ReportPublisher {
+  switch (target) {
+    case 's3':
+      return new BucketPublisher('s3', requireReportBucketStorage(), CONFIG.REPORTS_BASE_URL);
+    case 'local':
+      return new BucketPublisher('local', new LocalObjectStorage(CONFIG.PUBLISH_LOCAL_DIR), path.resolve(CONFIG.PUBLISH_LOCAL_DIR));
+    case 'webhook':
+      return new WebhookPublisher(CONFIG.WEBHOOK_URL, process.env.UPLOAD_SECRET);
+    case 'report-storage':
+    case 'database':
+      throw new Error(`Publish target '${target}' is only available in the report server`);
+    default:
+      throw new Error(`Unknown publish target '${target}'`);
+  }
+}
+
+/**
+ * Publish a report to every target in order. A failing target does not stop
+ * the others; each one gets its own result. `provided` publishers take
+ * precedence over the built-in ones with the same target name.
+ */
+export async function publishReport(
+  targets: string[],
+  report: PublishedReport,
+  provided: ReportPublisher[] = []
+): Promise<PublishResult[]> {
+  const results: PublishResult[] = [];
+
+  for (const target of targets) {
+    const startTime = Date.now();
+    try {
+      const publisher = provided.find(publisher => publisher.target === target) ?? createPublisher(target);
+      const { url } = await publisher.publish(report);
+      results.push({ target, success: true, url, durationMs: Date.now() - startTime });
+      console.log(`   ✅ ${target}: published${url ? ` to ${url}` : ''}`);
+    } catch (error: any) {
+      results.push({ target, success: false, error: error.message, durationMs: Date.now() - startTime });
+      console.error(`   ❌ ${target}: ${error.message}`);
+    }
+  }
+
+  return results;
+}
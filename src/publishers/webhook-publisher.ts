@@ -0,0 +1,35 @@
+import axios from 'axios';
+import { PublishedReport, ReportPublisher } from './report-publisher';
+
+/**
+ * POST the run's headline stats to a URL, in the shape the history endpoint
+ * (/api/update-history) expects. Non-2xx responses fail the target.
+ */
+export class WebhookPublisher implements ReportPublisher {
+  public readonly target = 'webhook';
+
+  constructor(private url: string, private secret?: string) {}
+
+  public async publish({ reportData, timestamp }: PublishedReport): Promise<{ url?: string }> {
+    if (!this.url) {
+      throw new Error('WEBHOOK_URL (or VERCEL_URL) is not configured');
+    }
+
+    await axios.post(
+      this.url,
+      {
+        timestamp,
+        stats: reportData.s,
+        secret: this.secret
+      },
+      {
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        timeout: 30000
+      }
+    );
+
+    return {};
+  }
+}
@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import { RegionStats } from './shared/report-schema';
+
+const MIN_COORD = -175;
+const MAX_COORD = 175;
+
+export interface RegionRect {
+  min: [number, number];
+  max: [number, number];
+}
+
+// A named area of Genesis City: the union of its rectangles and single parcels
+export interface RegionDefinition {
+  id: string;
+  name: string;
+  rects: RegionRect[];
+  parcels: [number, number][];
+}
+
+export interface RegionCoverage {
+  region: RegionDefinition;
+  stats: RegionStats;
+}
+
+function isCoordinate(value: unknown): value is [number, number] {
+  return Array.isArray(value) && value.length === 2 && value.every(item => Number.isInteger(item));
+}
+
+function parsePointer(value: unknown): [number, number] | null {
+  if (isCoordinate(value)) return value;
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(/^(-?\d+),\s*(-?\d+)$/);
+  return match ? [parseInt(match[1], 10), parseInt(match[2], 10)] : null;
+}
+
+/**
+ * Validate a region definition file:
+ * { "regions": [{ "id", "name", "rects": [{ "min": [x, y], "max": [x, y] }], "parcels": ["x,y" | [x, y]] }] }
+ * Throws with the offending entry on the first problem.
+ */
+export function parseRegionDefinitions(value: unknown, source: string): RegionDefinition[] {
+  const list = (value as { regions?: unknown })?.regions;
+  if (!Array.isArray(list)) {
+    throw new Error(`${source}: expected an object with a "regions" array`);
+  }
+
+  const ids = new Set<string>();
+  return list.map((entry: any, index): RegionDefinition => {
+    const where = `${source}: regions[${index}]`;
+    if (typeof entry?.id !== 'string' || !entry.id || typeof entry.name !== 'string' || !entry.name) {
+      throw new Error(`${where}: expected a non-empty "id" and "name"`);
+    }
+    if (ids.has(entry.id)) {
+      throw new Error(`${where}: duplicate region id "${entry.id}"`);
+    }
+    ids.add(entry.id);
+
+    const rects: RegionRect[] = (entry.rects ?? []).map((rect: any, rectIndex: number) => {
+      if (!isCoordinate(rect?.min) || !isCoordinate(rect?.max)) {
+        throw new Error(`${where}.rects[${rectIndex}]: expected "min" and "max" as [x, y]`);
+      }
+      return {
+        min: [Math.min(rect.min[0], rect.max[0]), Math.min(rect.min[1], rect.max[1])],
+        max: [Math.max(rect.min[0], rect.max[0]), Math.max(rect.min[1], rect.max[1])]
+      };
+    });
+
+    const parcels = (entry.parcels ?? []).map((pointer: unknown, parcelIndex: number) => {
+      const parcel = parsePointer(pointer);
+      if (!parcel) {
+        throw new Error(`${where}.parcels[${parcelIndex}]: expected "x,y" or [x, y]`);
+      }
+      return parcel;
+    });
+
+    if (rects.length === 0 && parcels.length === 0) {
+      throw new Error(`${where}: region "${entry.id}" has no rects or parcels`);
+    }
+    return { id: entry.id, name: entry.name, rects, parcels };
+  });
+}
+
+// Regions are optional: a missing file means no regions, an invalid one is an error
+export function loadRegionDefinitions(filePath: string): RegionDefinition[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+  return parseRegionDefinitions(JSON.parse(fs.readFileSync(filePath, 'utf-8')), filePath);
+}
+
+// Pointers ("x,y") of every parcel in the region, clipped to the map
+export function getRegionPointers(region: RegionDefinition): Set<string> {
+  const pointers = new Set<string>();
+
+  for (const rect of region.rects) {
+    for (let x = Math.max(rect.min[0], MIN_COORD); x <= Math.min(rect.max[0], MAX_COORD); x++) {
+      for (let y = Math.max(rect.min[1], MIN_COORD); y <= Math.min(rect.max[1], MAX_COORD); y++) {
+        pointers.add(`${x},${y}`);
+      }
+    }
+  }
+  for (const [x, y] of region.parcels) {
+    if (x >= MIN_COORD && x <= MAX_COORD && y >= MIN_COORD && y <= MAX_COORD) {
+      pointers.add(`${x},${y}`);
+    }
+  }
+  return pointers;
+}
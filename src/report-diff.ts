@@ -0,0 +1,159 @@
+import { getWorldOptimizationStatus, ReportPayload, WorldOptimizationStatus } from './shared/report-schema';
+
+export type DiffSceneStatus = 'optimized' | 'failed' | 'not-optimized';
+
+export interface DiffScene {
+  sceneId: string;
+  title: string;
+  baseParcel: string;
+  parcels: number;
+  from: DiffSceneStatus | null; // null when the scene is not in the older report
+  to: DiffSceneStatus | null;   // null when the scene is not in the newer report
+}
+
+// Worlds that are not optimized at all are 'failed' when one of their scenes has a failed report
+export type DiffWorldStatus = WorldOptimizationStatus | 'failed';
+
+export interface DiffWorld {
+  name: string;
+  title: string;
+  from: DiffWorldStatus | null;
+  to: DiffWorldStatus | null;
+}
+
+export interface DiffReportSummary {
+  generatedAt: number;
+  totalScenes: number;
+  optimizationPercentage: number;
+}
+
+export interface ReportDiff {
+  from: DiffReportSummary;
+  to: DiffReportSummary;
+  optimized: DiffScene[]; // not optimized or failed before, optimized now
+  regressed: DiffScene[]; // optimized before, not optimized or failed now
+  added: DiffScene[];
+  removed: DiffScene[];
+  worlds: DiffWorld[];    // worlds whose status changed, appeared or disappeared
+}
+
+interface SceneSnapshot {
+  status: DiffSceneStatus;
+  parcels: string[];
+}
+
+// Land format: [x, y, sceneId, hasOptimized, reportSuccess?]
+function getScenes(report: ReportPayload): Map<string, SceneSnapshot> {
+  const scenes = new Map<string, SceneSnapshot>();
+
+  for (const [x, y, sceneId, hasOptimized, reportSuccess] of report.l) {
+    let scene = scenes.get(sceneId);
+    if (!scene) {
+      scene = {
+        status: hasOptimized === 1 ? 'optimized' : reportSuccess === 0 ? 'failed' : 'not-optimized',
+        parcels: []
+      };
+      scenes.set(sceneId, scene);
+    }
+    scene.parcels.push(`${x},${y}`);
+  }
+
+  return scenes;
+}
+
+// World format: [name, sceneId, title, thumbnail, parcels, hasOptimized, hasFailed?, scenes?]
+function getWorlds(report: ReportPayload): Map<string, { title: string; status: DiffWorldStatus }> {
+  const worlds = new Map<string, { title: string; status: DiffWorldStatus }>();
+
+  for (const [name, , title, , , hasOptimized, hasFailed, scenes] of report.w || []) {
+    const status = scenes
+      ? getWorldOptimizationStatus(scenes.map(scene => ({ hasOptimizedAssets: scene[3] === 1 })))
+      : hasOptimized === 1 ? 'optimized' : 'not-optimized';
+    const failed = hasFailed === 1 || (scenes?.some(scene => scene[4] === 1) ?? false);
+    worlds.set(name, { title, status: status === 'not-optimized' && failed ? 'failed' : status });
+  }
+
+  return worlds;
+}
+
+function getSummary(report: ReportPayload): DiffReportSummary {
+  return {
+    generatedAt: report.g,
+    totalScenes: report.s.totalScenes,
+    optimizationPercentage: report.s.optimizationPercentage
+  };
+}
+
+/**
+ * Compare two reports scene by scene and world by world.
+ * Scenes are matched by entity id, so a redeployed scene shows up as one
+ * removed scene and one added scene.
+ */
+export function diffReports(from: ReportPayload, to: ReportPayload): ReportDiff {
+  const fromScenes = getScenes(from);
+  const toScenes = getScenes(to);
+
+  const describe = (sceneId: string, scene: SceneSnapshot): Omit<DiffScene, 'from' | 'to'> => {
+    const metadata = to.md?.[sceneId] || from.md?.[sceneId];
+    return {
+      sceneId,
+      title: metadata?.[0] || '',
+      baseParcel: metadata?.[1] || scene.parcels[0],
+      parcels: scene.parcels.length
+    };
+  };
+
+  const diff: ReportDiff = {
+    from: getSummary(from),
+    to: getSummary(to),
+    optimized: [],
+    regressed: [],
+    added: [],
+    removed: [],
+    worlds: []
+  };
+
+  toScenes.forEach((scene, sceneId) => {
+    const previous = fromScenes.get(sceneId);
+    const entry = { ...describe(sceneId, scene), from: previous?.status ?? null, to: scene.status };
+
+    if (!previous) {
+      diff.added.push(entry);
+    } else if (previous.status !== 'optimized' && scene.status === 'optimized') {
+      diff.optimized.push(entry);
+    } else if (previous.status === 'optimized' && scene.status !== 'optimized') {
+      diff.regressed.push(entry);
+    }
+  });
+
+  fromScenes.forEach((scene, sceneId) => {
+    if (!toScenes.has(sceneId)) {
+      diff.removed.push({ ...describe(sceneId, scene), from: scene.status, to: null });
+    }
+  });
+
+  const fromWorlds = getWorlds(from);
+  const toWorlds = getWorlds(to);
+  for (const name of new Set([...fromWorlds.keys(), ...toWorlds.keys()])) {
+    const before = fromWorlds.get(name);
+    const after = toWorlds.get(name);
+    if (before?.status !== after?.status) {
+      diff.worlds.push({
+        name,
+        title: after?.title || before?.title || name,
+        from: before?.status ?? null,
+        to: after?.status ?? null
+      });
+    }
+  }
+
+  // Biggest scenes first, so the changes that matter most lead each list
+  const byParcels = (a: DiffScene, b: DiffScene) => b.parcels - a.parcels || a.sceneId.localeCompare(b.sceneId);
+  diff.optimized.sort(byParcels);
+  diff.regressed.sort(byParcels);
+  diff.added.sort(byParcels);
+  diff.removed.sort(byParcels);
+  diff.worlds.sort((a, b) => a.name.localeCompare(b.name));
+
+  return diff;
+}
@@ -0,0 +1,49 @@
+import { createHash } from 'crypto';
+import { promisify } from 'util';
+import * as zlib from 'zlib';
+import { ReportPayload } from './shared/report-schema';
+
+const gzip = promisify(zlib.gzip);
+const brotliCompress = promisify(zlib.brotliCompress);
+
+export type ContentEncoding = 'br' | 'gzip' | 'identity';
+
+// Preferred first; identity is always acceptable
+export const CONTENT_ENCODINGS: ContentEncoding[] = ['br', 'gzip', 'identity'];
+
+/**
+ * A report serialized once per generation in every encoding it is served in.
+ * The ETag is weak because it names the JSON content, whichever encoding carries it.
+ */
+export interface EncodedReport {
+  etag: string;
+  variants: Record<ContentEncoding, Buffer>;
+}
+
+export async function encodeReport(reportData: ReportPayload): Promise<EncodedReport> {
+  const identity = Buffer.from(JSON.stringify(reportData), 'utf-8');
+  const hash = createHash('sha256').update(identity).digest('hex').slice(0, 32);
+
+  const [gzipped, brotli] = await Promise.all([
+    gzip(identity, { level: zlib.constants.Z_BEST_COMPRESSION }),
+    // Quality 11 takes several seconds on multi-megabyte reports for a few percent less
+    brotliCompress(identity, {
+      params: {
+        [zlib.constants.BROTLI_PARAM_QUALITY]: 9,
+        [zlib.constants.BROTLI_PARAM_MODE]: zlib.constants.BROTLI_MODE_TEXT,
+        [zlib.constants.BROTLI_PARAM_SIZE_HINT]: identity.length
+      }
+    })
+  ]);
+
+  return {
+    etag: `W/"${hash}"`,
+    variants: { identity, gzip: gzipped, br: brotli }
+  };
+}
+
+export function formatEncodedSizes(encoded: EncodedReport): string {
+  return CONTENT_ENCODINGS
+    .map(encoding => `${encoding} ${(encoded.variants[encoding].length / 1024 / 1024).toFixed(2)} MB`)
+    .join(', ');
+}
@@ -0,0 +1,126 @@
+import { OptimizationReport, ReportStatus, Scene, WorldWithOptimization, WorldOptimizationStatus } from './types';
+import { getReportFailure } from './api/report-parser';
+
+export type ExportFormat = 'csv' | 'ndjson';
+export type ExportDataset = 'scenes' | 'worlds';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'ndjson'];
+export const EXPORT_DATASETS: ExportDataset[] = ['scenes', 'worlds'];
+
+export interface SceneExportRow {
+  sceneId: string;
+  baseParcel: string;
+  parcelCount: number;
+  optimized: boolean;
+  reportStatus: ReportStatus;
+  errorCategory: string | null;
+  reportTimestamp: string | null;
+}
+
+// One row per scene of a world, so multi-scene worlds can be filtered like Genesis City scenes
+export interface WorldExportRow {
+  world: string;
+  worldStatus: WorldOptimizationStatus;
+  sceneId: string;
+  title: string;
+  parcelCount: number;
+  optimized: boolean;
+  reportStatus: ReportStatus;
+  errorCategory: string | null;
+  reportTimestamp: string | null;
+}
+
+export interface ReportExport {
+  scenes: SceneExportRow[];
+  worlds: WorldExportRow[];
+}
+
+// Column order of the CSV files; NDJSON objects use the same keys
+export const EXPORT_COLUMNS: { scenes: (keyof SceneExportRow)[]; worlds: (keyof WorldExportRow)[] } = {
+  scenes: ['sceneId', 'baseParcel', 'parcelCount', 'optimized', 'reportStatus', 'errorCategory', 'reportTimestamp'],
+  worlds: ['world', 'worldStatus', 'sceneId', 'title', 'parcelCount', 'optimized', 'reportStatus', 'errorCategory', 'reportTimestamp']
+};
+
+function getReportColumns(report: OptimizationReport | undefined): Pick<SceneExportRow, 'reportStatus' | 'errorCategory' | 'reportTimestamp'> {
+  return {
+    reportStatus: report ? (report.success ? 'success' : 'failed') : 'none',
+    errorCategory: report ? getReportFailure(report)?.category ?? null : null,
+    reportTimestamp: report?.timestamp ?? null
+  };
+}
+
+/**
+ * Build the per-scene and per-world-scene export tables of a run.
+ * Scenes are sorted by id so consecutive exports diff cleanly.
+ */
+export function buildReportExport(scenes: Scene[], worlds: WorldWithOptimization[]): ReportExport {
+  const uniqueScenes = new Map(scenes.map(scene => [scene.id, scene]));
+
+  const sceneRows = Array.from(uniqueScenes.values())
+    .map((scene): SceneExportRow => ({
+      sceneId: scene.id,
+      baseParcel: scene.metadata?.scene?.base || scene.pointers[0] || '',
+      parcelCount: scene.pointers.length,
+      optimized: scene.hasOptimizedAssets || false,
+      ...getReportColumns(scene.optimizationReport)
+    }))
+    .sort((a, b) => a.sceneId.localeCompare(b.sceneId));
+
+  const worldRows = worlds.flatMap(world => world.scenes.map((scene): WorldExportRow => ({
+    world: world.name,
+    worldStatus: world.status,
+    sceneId: scene.sceneId,
+    title: scene.title,
+    parcelCount: scene.parcels,
+    optimized: scene.hasOptimizedAssets,
+    ...getReportColumns(scene.optimizationReport)
+  })));
+
+  return { scenes: sceneRows, worlds: worldRows };
+}
+
+/**
+ * Keep the rows whose column value matches one of the values of every filter.
+ * Returns an error message when a filter names an unknown column.
+ */
+export function filterExportRows<T extends object>(rows: T[], columns: (keyof T)[], filters: [string, string[]][]): T[] | string {
+  const checks: [keyof T, string[]][] = [];
+
+  for (const [name, values] of filters) {
+    const column = columns.find(column => column === name);
+    if (!column) {
+      return `Unknown filter '${name}', expected one of: ${columns.join(', ')}`;
+    }
+    checks.push([column, values]);
+  }
+
+  return rows.filter(row => checks.every(([column, values]) => values.includes(String(row[column] ?? ''))));
+}
+
+function toCsvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Serialize export rows; CSV starts with a header row, NDJSON has one object per line
+export function formatExport<T extends object>(rows: T[], columns: (keyof T)[], format: ExportFormat): string {
+  if (format === 'ndjson') {
+    return rows.map(row => JSON.stringify(row)).join('\n') + (rows.length > 0 ? '\n' : '');
+  }
+
+  const lines = [columns.join(',')];
+  for (const row of rows) {
+    lines.push(columns.map(column => toCsvField(row[column])).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+// Object key of an export in the reports bucket (and under a local publish directory)
+export function getExportKey(dataset: ExportDataset, format: ExportFormat): string {
+  return `optimization-pipeline/${dataset}.${format}`;
+}
+
+export function getExportContentType(format: ExportFormat): string {
+  return format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson';
+}
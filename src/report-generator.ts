@@ -1,4 +1,19 @@
-import { WorldData, WorldWithOptimization, WorldsStats } from './types';
+import { EntityCoverage, WorldData, WorldWithOptimization, WorldsStats } from './types';
+import { RegionCoverage } from './regions';
+import {
+  CompressedLand,
+  CompressedMetrics,
+  CompressedRedeploy,
+  CompressedRegion,
+  CompressedSceneMetadata,
+  CompressedVersionCoverage,
+  CompressedWorld,
+  CompressedWorldScene,
+  REPORT_FORMAT_VERSION,
+  ReportPayload,
+  ReportStats,
+  validateReportPayload
+} from './shared/report-schema';
 
 interface WorldsData {
   worlds: WorldWithOptimization[];
@@ -6,7 +21,14 @@ interface WorldsData {
 }
 
 export class ReportGenerator {
-  public generateReportData(worldData: WorldData, stats: any, worldsData?: WorldsData): any {
+  public generateReportData(
+    worldData: WorldData,
+    stats: ReportStats,
+    worldsData?: WorldsData,
+    versions: string[] = [],
+    entityCoverage?: EntityCoverage,
+    regions: RegionCoverage[] = []
+  ): ReportPayload {
     const landsArray = Array.from(worldData.lands.values());
 
     // ULTRA COMPRESSED: Only include occupied lands to drastically reduce size
@@ -15,14 +37,15 @@ export class ReportGenerator {
       .map(land => {
         // Use array format instead of object to save space
         // Format: [x, y, sceneId, hasOptimized, reportSuccess]
-        const compressed: any[] = [
+        const compressed: CompressedLand = [
           land.x,
           land.y,
-          land.sceneId
+          land.sceneId as string,
+          0
         ];
 
         // Add optimization status (1 = optimized, 0 = not)
-        compressed.push(land.hasOptimizedAssets ? 1 : 0);
+        compressed[3] = land.hasOptimizedAssets ? 1 : 0;
 
         // Add report status if exists (1 = success, 0 = failed, undefined = no report)
         if (land.optimizationReport) {
@@ -32,6 +55,17 @@ export class ReportGenerator {
         return compressed;
       });
 
+    // Parcels regressed by a redeploy
+    // Format: [x, y, previousSceneId, redeployedAt]
+    const redeploys = landsArray
+      .filter(land => land.redeploy)
+      .map((land): CompressedRedeploy => [
+        land.x,
+        land.y,
+        land.redeploy!.previousSceneId,
+        land.redeploy!.redeployedAt ?? null
+      ]);
+
     // Create a scene ID to color index map (use indices instead of color strings)
     const sceneIds = Array.from(worldData.scenes.keys());
     const sceneColorIndices: Record<string, number> = {};
@@ -39,27 +73,112 @@ export class ReportGenerator {
       sceneColorIndices[sceneId] = index;
     });
 
+    // Per-scene metrics, keyed by scene ID so multi-parcel scenes are stored once
+    // Format: [originalSize, optimizedSize, totalAssets, successfulAssets, failedAssets, processingTime]
+    const sceneMetrics: Record<string, CompressedMetrics> = {};
+    worldData.scenes.forEach((scene, sceneId) => {
+      const metrics = scene.optimizationReport?.metrics;
+      if (metrics) {
+        sceneMetrics[sceneId] = [
+          metrics.originalSize ?? null,
+          metrics.optimizedSize ?? null,
+          metrics.totalAssets ?? null,
+          metrics.successfulAssets ?? null,
+          metrics.failedAssets ?? null,
+          metrics.processingTime ?? null
+        ];
+      }
+    });
+
+    // Per-scene catalyst metadata, so the UI can show titles and thumbnails without fetching each entity
+    // Format: [title, baseParcel, thumbnailHash, deployedAt]
+    const sceneMetadata: Record<string, CompressedSceneMetadata> = {};
+    worldData.scenes.forEach((scene, sceneId) => {
+      const display = scene.metadata?.display;
+      const thumbnail = display?.navmapThumbnail
+        ? scene.content?.find(content => content.file === display.navmapThumbnail)?.hash
+        : undefined;
+      sceneMetadata[sceneId] = [
+        display?.title || '',
+        scene.metadata?.scene?.base ?? null,
+        thumbnail ?? null,
+        scene.timestamp ?? null
+      ];
+    });
+
+    // Per-version coverage as one bitmask per scene, in color index order
+    let versionCoverage: CompressedVersionCoverage | undefined;
+    if (versions.length > 1) {
+      versionCoverage = {
+        p: versions[0],
+        vs: versions,
+        b: sceneIds.map(sceneId => {
+          const optimizedVersions = worldData.scenes.get(sceneId)?.optimizedVersions || [];
+          return versions.reduce((mask, version, bit) =>
+            optimizedVersions.includes(version) ? mask | (1 << bit) : mask, 0);
+        })
+      };
+    }
+
     // Compress worlds data
-    // Format: [name, sceneId, title, thumbnail, parcels, hasOptimized, hasFailed?]
-    const compressedWorlds = worldsData?.worlds.map(world => [
-      world.name,
-      world.sceneId,
-      world.title,
-      world.thumbnail || '',
-      world.parcels,
-      world.hasOptimizedAssets ? 1 : 0,
-      world.hasFailed ? 1 : 0
-    ]) || [];
-
-    return {
+    // Format: [name, sceneId, title, thumbnail, parcels, hasOptimized, hasFailed?, scenes?]
+    // The per-scene breakdown is only needed for worlds with more than one scene
+    const compressedWorlds = worldsData?.worlds.map((world): CompressedWorld => {
+      const compressed: CompressedWorld = [
+        world.name,
+        world.sceneId,
+        world.title,
+        world.thumbnail || '',
+        world.parcels,
+        world.hasOptimizedAssets ? 1 : 0,
+        world.hasFailed ? 1 : 0
+      ];
+      if (world.scenes.length > 1) {
+        compressed.push(world.scenes.map((scene): CompressedWorldScene => [
+          scene.sceneId,
+          scene.title,
+          scene.parcels,
+          scene.hasOptimizedAssets ? 1 : 0,
+          scene.hasFailed ? 1 : 0
+        ]));
+      }
+      return compressed;
+    }) || [];
+
+    // Regions keep their shape so the map can outline them
+    // Format: rects as [minX, minY, maxX, maxY], parcels as [x, y]
+    const compressedRegions = regions.map(({ region, stats: regionStats }): CompressedRegion => ({
+      i: region.id,
+      n: region.name,
+      b: region.rects.map(rect => [rect.min[0], rect.min[1], rect.max[0], rect.max[1]]),
+      p: region.parcels,
+      s: regionStats
+    }));
+
+    const payload: ReportPayload = {
       // Use abbreviated keys
+      v: REPORT_FORMAT_VERSION, // payload format version
       l: occupiedLands, // lands (only occupied)
       s: stats, // stats
       c: sceneColorIndices, // color indices for scenes
+      m: sceneMetrics, // per-scene size and asset metrics
+      md: sceneMetadata, // per-scene title, base parcel, thumbnail and deploy time
       g: Date.now(), // generated timestamp (shorter than ISO string)
       // Worlds data
       w: compressedWorlds, // worlds array
-      ws: worldsData?.stats || null // worlds stats
+      ws: worldsData?.stats || null, // worlds stats
+      ...(versionCoverage ? { ov: versionCoverage } : {}),
+      ...(entityCoverage ? { e: entityCoverage } : {}),
+      ...(compressedRegions.length > 0 ? { rg: compressedRegions } : {}),
+      r: redeploys // parcels regressed by a redeploy
     };
+
+    // Never publish a payload the UI cannot decode
+    const validation = validateReportPayload(payload);
+    if (!validation.valid) {
+      throw new Error(`Generated report payload is invalid: ${validation.errors.join('; ')}`);
+    }
+
+    return payload;
   }
 }
@@ -0,0 +1,203 @@
+import { CONFIG } from './config';
+import { ReportPayload, ReportStats } from './shared/report-schema';
+import { ObjectStorage } from './storage/object-storage';
+
+export const HISTORY_PREFIX = 'optimization-pipeline/history/';
+export const HISTORY_INDEX_KEY = 'optimization-pipeline/history-index.json';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SNAPSHOT_KEY = /^optimization-pipeline\/history\/\d{4}-\d{2}-\d{2}\/(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z\.json$/;
+
+// The stats the database history tracks, enough to chart snapshots without downloading them
+export type HistorySnapshotStats = Pick<ReportStats,
+  | 'totalLands'
+  | 'occupiedLands'
+  | 'totalScenes'
+  | 'scenesWithOptimizedAssets'
+  | 'scenesWithoutOptimizedAssets'
+  | 'optimizationPercentage'
+  | 'scenesWithReports'
+  | 'successfulOptimizations'
+  | 'failedOptimizations'>;
+
+export interface HistorySnapshot {
+  key: string;
+  url: string;
+  timestamp: string;
+  formatVersion: number | null;
+  stats: HistorySnapshotStats | null; // null when the snapshot could not be read while rebuilding the index
+}
+
+// Snapshots are sorted newest first
+export interface HistoryIndex {
+  updatedAt: string;
+  snapshots: HistorySnapshot[];
+}
+
+export interface RetentionPolicy {
+  keepAllDays: number;
+  keepDailyDays: number;
+  keepWeeklyDays: number; // 0 keeps weekly snapshots forever
+}
+
+export function getSnapshotKey(timestamp: string): string {
+  return `${HISTORY_PREFIX}${timestamp.split('T')[0]}/${timestamp.replace(/[:.]/g, '-')}.json`;
+}
+
+// Recover the upload timestamp from a snapshot key, or null for other objects under the history prefix
+export function parseSnapshotKey(key: string): string | null {
+  const match = key.match(SNAPSHOT_KEY);
+  return match ? `${match[1]}T${match[2]}:${match[3]}:${match[4]}.${match[5]}Z` : null;
+}
+
+function getSnapshotStats(stats: ReportStats): HistorySnapshotStats {
+  return {
+    totalLands: stats.totalLands,
+    occupiedLands: stats.occupiedLands,
+    totalScenes: stats.totalScenes,
+    scenesWithOptimizedAssets: stats.scenesWithOptimizedAssets,
+    scenesWithoutOptimizedAssets: stats.scenesWithoutOptimizedAssets,
+    optimizationPercentage: stats.optimizationPercentage,
+    scenesWithReports: stats.scenesWithReports,
+    successfulOptimizations: stats.successfulOptimizations,
+    failedOptimizations: stats.failedOptimizations
+  };
+}
+
+// Monday of the snapshot's UTC week
+function getWeekStart(date: Date): string {
+  const monday = new Date(date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS);
+  return monday.toISOString().split('T')[0];
+}
+
+/**
+ * Pick the snapshots the retention policy drops. Within the daily and weekly tiers
+ * the oldest snapshot of each day or week is kept, so a kept snapshot stays kept
+ * as it ages into the next tier.
+ */
+export function selectSnapshotsToPrune(snapshots: HistorySnapshot[], policy: RetentionPolicy, now: Date = new Date()): HistorySnapshot[] {
+  const keptDays = new Set<string>();
+  const keptWeeks = new Set<string>();
+  const pruned: HistorySnapshot[] = [];
+
+  const oldestFirst = [...snapshots].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  for (const snapshot of oldestFirst) {
+    const date = new Date(snapshot.timestamp);
+    const ageDays = (now.getTime() - date.getTime()) / DAY_MS;
+
+    if (ageDays < policy.keepAllDays) continue;
+
+    if (ageDays < policy.keepDailyDays) {
+      const day = snapshot.timestamp.split('T')[0];
+      if (keptDays.has(day)) {
+        pruned.push(snapshot);
+      } else {
+        keptDays.add(day);
+      }
+      continue;
+    }
+
+    const week = getWeekStart(date);
+    if ((policy.keepWeeklyDays > 0 && ageDays >= policy.keepWeeklyDays) || keptWeeks.has(week)) {
+      pruned.push(snapshot);
+    } else {
+      keptWeeks.add(week);
+    }
+  }
+
+  return pruned;
+}
+
+/**
+ * Index of the history snapshots in the reports bucket, kept in a single manifest
+ * next to the snapshots and thinned out by the retention policy on every upload.
+ */
+export class ReportHistory {
+  constructor(private storage: ObjectStorage, private baseUrl: string = CONFIG.REPORTS_BASE_URL) {}
+
+  public async loadIndex(): Promise<HistoryIndex | null> {
+    const body = await this.storage.get(HISTORY_INDEX_KEY);
+    return body ? JSON.parse(body) as HistoryIndex : null;
+  }
+
+  // Build the index from a bucket listing, for buckets that have snapshots from before the index existed
+  private async rebuildIndex(): Promise<HistoryIndex> {
+    console.log('   Rebuilding history index from existing snapshots...');
+    const snapshots: HistorySnapshot[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await this.storage.list(HISTORY_PREFIX, continuationToken);
+      for (const object of page.objects) {
+        const timestamp = parseSnapshotKey(object.key);
+        if (!timestamp) continue;
+
+        let report: ReportPayload | null = null;
+        try {
+          const body = await this.storage.get(object.key);
+          report = body ? JSON.parse(body) : null;
+        } catch (error: any) {
+          console.warn(`   Warning: could not read history snapshot ${object.key}: ${error.message}`);
+        }
+        snapshots.push({
+          key: object.key,
+          url: `${this.baseUrl}/${object.key}`,
+          timestamp,
+          formatVersion: report?.v ?? null,
+          stats: report?.s ? getSnapshotStats(report.s) : null
+        });
+      }
+      continuationToken = page.continuationToken;
+    } while (continuationToken);
+
+    console.log(`   Found ${snapshots.length} existing snapshots`);
+    return { updatedAt: new Date().toISOString(), snapshots };
+  }
+
+  /**
+   * Add an uploaded snapshot to the index, delete the snapshots the retention
+   * policy drops and save the index. Snapshots that fail to delete stay indexed.
+   */
+  public async addSnapshot(
+    key: string,
+    timestamp: string,
+    reportData: ReportPayload,
+    policy: RetentionPolicy = CONFIG.HISTORY_RETENTION
+  ): Promise<{ index: HistoryIndex; pruned: HistorySnapshot[] }> {
+    const index = (await this.loadIndex()) ?? (await this.rebuildIndex());
+
+    const snapshots = index.snapshots.filter(snapshot => snapshot.key !== key);
+    snapshots.push({
+      key,
+      url: `${this.baseUrl}/${key}`,
+      timestamp,
+      formatVersion: reportData.v,
+      stats: getSnapshotStats(reportData.s)
+    });
+
+    const pruned: HistorySnapshot[] = [];
+    for (const snapshot of selectSnapshotsToPrune(snapshots, policy, new Date(timestamp))) {
+      try {
+        await this.storage.delete(snapshot.key);
+        pruned.push(snapshot);
+      } catch (error: any) {
+        console.warn(`   Warning: could not delete history snapshot ${snapshot.key}: ${error.message}`);
+      }
+    }
+
+    const prunedKeys = new Set(pruned.map(snapshot => snapshot.key));
+    const updated: HistoryIndex = {
+      updatedAt: new Date().toISOString(),
+      snapshots: snapshots
+        .filter(snapshot => !prunedKeys.has(snapshot.key))
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    };
+
+    await this.storage.put(HISTORY_INDEX_KEY, JSON.stringify(updated), {
+      contentType: 'application/json',
+      cacheControl: 'public, max-age=300' // Same lifetime as the metadata file
+    });
+
+    return { index: updated, pruned };
+  }
+}
@@ -1,58 +1,220 @@
+import * as fs from 'fs';
+import * as path from 'path';
 import { DecentralandAPI } from './api/decentraland';
 import { WorldsAPI } from './api/worlds';
+import { CollectionsAPI } from './api/collections';
+import { HostRequestStats, RequestScheduler } from './api/request-scheduler';
+import { FixtureMode, FixtureStore, startFixtures } from './api/fixtures';
 import { DataProcessor } from './processor';
+import { RegionCoverage, loadRegionDefinitions } from './regions';
+import { PriorityPlan, PriorityPlanner } from './planner';
 import { ReportGenerator } from './report-generator';
-import { R2Uploader } from './r2-uploader';
+import { PublishResult, ReportPublisher, publishReport } from './publishers/report-publisher';
+import { SceneStateStore } from './scene-state';
+import { RunCheckpoint, RunCheckpointStore } from './run-checkpoint';
+import { ReportExport, buildReportExport } from './report-export';
+import { encodeReport, formatEncodedSizes } from './report-encoding';
+import { CONFIG } from './config';
+import { ConsistencyReport, EntityCoverage, Scene, WorldWithOptimization, WorldsStats } from './types';
+import { ReportPayload } from './shared/report-schema';
 
 export interface ReportGenerationResult {
   success: boolean;
+  runId?: string;
+  resumed?: boolean;
   stats?: {
     totalLands: number;
     occupiedLands: number;
     totalScenes: number;
     optimizationPercentage: number;
+    skippedScenes: number;
   };
-  reportData?: any;
+  reportData?: ReportPayload;
+  reportExport?: ReportExport;
+  plan?: PriorityPlan;
+  published?: PublishResult[];
+  consistency?: ConsistencyReport;
+  requests?: HostRequestStats[];
   error?: string;
 }
 
 export type ProgressCallback = (percent: number, message: string) => void;
 
 export interface ReportGenerationOptions {
-  skipR2Upload?: boolean;
+  publishTargets?: string[];
+  publishers?: ReportPublisher[];
+  incremental?: boolean;
+  fullRefresh?: boolean;
+  resume?: boolean;
+  fixtureMode?: FixtureMode;
+  fixtureDir?: string;
   onProgress?: ProgressCallback;
 }
 
+export interface WorldsCheckResult {
+  success: boolean;
+  worlds?: WorldWithOptimization[];
+  stats?: WorldsStats;
+  error?: string;
+}
+
+export interface InterruptedRun {
+  runId: string;
+  startedAt: string;
+}
+
+function getCheckpointMaxAgeMs(): number {
+  return CONFIG.CHECKPOINT_MAX_AGE_HOURS * 60 * 60 * 1000;
+}
+
+// Look for a checkpointed run that did not finish (e.g. the process crashed or was redeployed)
+export function findInterruptedRun(): InterruptedRun | null {
+  const checkpoint = new RunCheckpointStore(CONFIG.CHECKPOINT_DIR).findInterrupted(getCheckpointMaxAgeMs());
+  return checkpoint ? { runId: checkpoint.runId, startedAt: checkpoint.startedAt } : null;
+}
+
+/**
+ * Fixture runs keep their scene state and checkpoints in the fixture directory,
+ * starting empty each time, so a replay makes the same requests as its recording
+ * and neither touches the state of regular runs.
+ */
+function getRunPaths(fixtureMode: FixtureMode, fixtureDir: string): { stateFile: string; checkpointDir: string } {
+  if (fixtureMode === 'off') {
+    return { stateFile: CONFIG.SCENE_STATE_PATH, checkpointDir: CONFIG.CHECKPOINT_DIR };
+  }
+
+  const workDir = path.join(fixtureDir, fixtureMode);
+  fs.rmSync(workDir, { recursive: true, force: true });
+  return { stateFile: path.join(workDir, 'scene-state.json'), checkpointDir: path.join(workDir, 'checkpoints') };
+}
+
+function partitionByIds(scenes: Scene[], staleIds: Set<string>): { stale: Scene[]; fresh: Scene[] } {
+  return {
+    stale: scenes.filter(scene => staleIds.has(scene.id)),
+    fresh: scenes.filter(scene => !staleIds.has(scene.id))
+  };
+}
+
 /**
  * Run the report generation process.
  * This function can be called from CLI (index.ts) or scheduler (report-scheduler.ts)
- * @param options.skipR2Upload - If true, skip uploading to R2 (for local storage mode)
+ * @param options.publishTargets - Where to publish the report, in order (defaults to PUBLISH_TARGETS)
+ * @param options.publishers - Publishers for targets the caller provides, e.g. the server's report storage
+ * @param options.incremental - Reuse the previous run's per-scene state (defaults to REPORT_INCREMENTAL)
+ * @param options.fullRefresh - Re-check every scene even in incremental mode
+ * @param options.resume - Continue the latest interrupted run from its checkpoint if there is one
+ * @param options.fixtureMode - Record all outbound responses into the fixture directory, or replay them from it (defaults to FIXTURE_MODE)
+ * @param options.fixtureDir - Fixture directory (defaults to FIXTURE_DIR)
  */
 export async function runReportGeneration(options: ReportGenerationOptions = {}): Promise<ReportGenerationResult> {
   console.log('🚀 Starting Decentraland Asset Optimization Pipeline Report Generator');
   console.log('='.repeat(60));
 
+  let runId: string | undefined;
+  let stopFixtures: (() => void) | undefined;
   try {
     const { onProgress } = options;
+    const fixtureMode = options.fixtureMode ?? CONFIG.FIXTURE_MODE;
+    const fixtureDir = options.fixtureDir ?? CONFIG.FIXTURE_DIR;
+    let fixtures: FixtureStore | undefined;
+    if (fixtureMode !== 'off') {
+      console.log(`🎞️ Fixture ${fixtureMode} mode: ${fixtureMode === 'record' ? 'recording responses into' : 'replaying responses from'} ${fixtureDir}`);
+      fixtures = new FixtureStore(fixtureMode, fixtureDir);
+      stopFixtures = startFixtures(fixtures);
+    }
+
+    const runPaths = getRunPaths(fixtureMode, fixtureDir);
+    const checkpoints = new RunCheckpointStore(runPaths.checkpointDir);
+
+    let checkpoint: RunCheckpoint | null = null;
+    if (options.resume && !options.fullRefresh) {
+      checkpoint = checkpoints.findInterrupted(getCheckpointMaxAgeMs());
+      if (checkpoint) {
+        console.log(`♻️ Resuming run ${checkpoint.runId} started at ${checkpoint.startedAt} (${checkpoint.reportCount} reports already fetched)`);
+      }
+    }
+    const resumed = checkpoint !== null;
+    if (!checkpoint) {
+      checkpoint = checkpoints.create((options.incremental ?? CONFIG.INCREMENTAL) && !options.fullRefresh);
+      console.log(`Starting run ${checkpoint.runId}`);
+    }
+    runId = checkpoint.runId;
+    const incremental = checkpoint.incremental;
 
     console.log('\n📡 Step 1: Fetching world data from Decentraland...');
     onProgress?.(5, 'Fetching world data from Decentraland...');
-    const api = new DecentralandAPI();
-    let scenes = await api.fetchWorld();
+    const scheduler = new RequestScheduler();
+    const api = new DecentralandAPI(scheduler);
+    let scenes = checkpoint.getScenes();
+    if (scenes) {
+      console.log(`Restored ${scenes.length} scenes from checkpoint`);
+    } else {
+      scenes = await api.fetchWorld();
+      checkpoint.setScenes(scenes);
+    }
     onProgress?.(15, 'World data fetched, checking optimization status...');
 
+    const consistency = api.getConsistencyReport();
+    if (consistency) {
+      console.log('\n🔎 Content server consistency check:');
+      console.log(`  - Sampled Batches: ${consistency.sampledBatches}`);
+      console.log(`  - Sampled Pointers: ${consistency.sampledPointers}`);
+      console.log(`  - Entity-id Disagreements: ${consistency.disagreementCount}`);
+      for (const disagreement of consistency.disagreements.slice(0, 20)) {
+        console.log(`    ${disagreement.pointer}: ${disagreement.primary.server}=${disagreement.primary.entityId ?? 'empty'} vs ${disagreement.secondary.server}=${disagreement.secondary.entityId ?? 'empty'}`);
+      }
+    }
+
     console.log('\n⚡ Step 2: Checking asset optimization status...');
-    scenes = await api.checkOptimizationStatus(scenes, (percent, message) => {
+    const stateStore = new SceneStateStore(runPaths.stateFile);
+    stateStore.load();
+
+    // A resumed run keeps the partition it started with so checkpointed reports still line up
+    const ttlMs = CONFIG.SCENE_STATE_TTL_HOURS * 60 * 60 * 1000;
+    const staleSceneIds = checkpoint.getStaleSceneIds();
+    const { stale, fresh } = staleSceneIds
+      ? partitionByIds(scenes, new Set(staleSceneIds))
+      : incremental
+        ? stateStore.partition(scenes, ttlMs)
+        : { stale: scenes, fresh: [] };
+    if (!staleSceneIds) {
+      checkpoint.setStaleSceneIds(stale.map(s => s.id));
+    }
+    const skippedScenes = new Set(fresh.map(s => s.id)).size;
+
+    if (incremental) {
+      console.log(`Incremental mode: skipping ${skippedScenes} scenes with fresh state (TTL ${CONFIG.SCENE_STATE_TTL_HOURS}h)`);
+    } else {
+      console.log(options.fullRefresh ? 'Full refresh requested: checking all scenes' : 'Checking all scenes');
+    }
+
+    const checkedScenes = await api.checkOptimizationStatus(stale, (percent, message) => {
       // Map 0-100% of optimization check to 15-85% of total progress
       const mappedPercent = 15 + (percent * 0.7);
       onProgress?.(mappedPercent, message);
-    });
+    }, checkpoint, options.fullRefresh ? undefined : sceneId => stateStore.get(sceneId));
+    scenes = [...checkedScenes, ...fresh.map(scene => stateStore.apply(scene))];
+
+    stateStore.update(checkedScenes);
+    const redeployRegressions = stateStore.trackRedeploys(scenes);
+    stateStore.save();
+
+    let versions: string[] = [CONFIG.OPTIMIZATION_API_VERSION];
+    if (CONFIG.OPTIMIZATION_API_VERSIONS.length > 1) {
+      console.log(`\n🔀 Step 2b: Checking coverage across versions (${CONFIG.OPTIMIZATION_API_VERSIONS.join(', ')})...`);
+      onProgress?.(85, 'Checking coverage across optimization API versions...');
+      versions = await api.checkVersionCoverage(scenes, CONFIG.OPTIMIZATION_API_VERSIONS);
+    }
 
     console.log('\n🔄 Step 3: Processing scene data...');
     onProgress?.(85, 'Processing scene data...');
     const processor = new DataProcessor();
     const worldData = processor.processScenes(scenes);
+    processor.applyRedeployRegressions(worldData, redeployRegressions);
     const stats = processor.getStatistics(worldData);
+    if (versions.length > 1) {
+      Object.assign(stats, processor.getVersionCoverage(worldData, versions));
+    }
 
     console.log('\n📊 Genesis City Statistics:');
     console.log(`  - Total Lands: ${stats.totalLands}`);
@@ -66,48 +228,199 @@ export async function runReportGeneration(options: ReportGenerationOptions = {})
     console.log(`  - Scenes with Reports: ${stats.scenesWithReports}`);
     console.log(`  - Successful Optimizations: ${stats.successfulOptimizations}`);
     console.log(`  - Failed Optimizations: ${stats.failedOptimizations}`);
+    for (const [category, count] of Object.entries(stats.failureCategories || {})) {
+      console.log(`    - ${category}: ${count}`);
+    }
+    console.log(`  - Scenes with Size Metrics: ${stats.scenesWithMetrics}`);
+    console.log(`  - Bytes Saved: ${(stats.bytesSaved / 1024 / 1024).toFixed(2)} MB`);
+    console.log(`  - Mean Compression Ratio: ${stats.meanCompressionRatio.toFixed(3)}`);
+    console.log(`  - Scenes Skipped (incremental): ${skippedScenes}`);
+    console.log(`  - Regressed by Redeploy: ${stats.regressedParcels} parcels in ${stats.regressedScenes} scenes`);
+    const recentRedeploys = new Map(redeployRegressions.map(regression => [regression.sceneId, regression]));
+    for (const regression of Array.from(recentRedeploys.values())
+      .sort((a, b) => (b.redeployedAt ?? 0) - (a.redeployedAt ?? 0))
+      .slice(0, 10)) {
+      const redeployedAt = regression.redeployedAt ? new Date(regression.redeployedAt).toISOString() : 'unknown';
+      console.log(`    ${regression.sceneId} (was ${regression.previousSceneId}), redeployed ${redeployedAt}`);
+    }
+    if (stats.versionCoverage) {
+      for (const [version, coverage] of Object.entries(stats.versionCoverage)) {
+        console.log(`  - Coverage ${version}: ${coverage.scenesWithOptimizedAssets} scenes (${coverage.optimizationPercentage.toFixed(1)}%)`);
+      }
+      for (const entry of stats.migration || []) {
+        console.log(`  - Migration ${entry.from} → ${entry.to}: both ${entry.inBoth}, only ${entry.from} ${entry.onlyInFrom}, only ${entry.to} ${entry.onlyInTo}, neither ${entry.inNeither}`);
+      }
+    }
+
+    // Rank what to optimize next
+    const plan = new PriorityPlanner(CONFIG.PLANNER).plan(worldData, sceneId => stateStore.get(sceneId)?.failureCount ?? 0);
+    console.log(`\n🎯 Priority Plan: ${plan.scenes.length} of ${plan.candidates} unoptimized scenes ranked`);
+    for (const entry of plan.scenes.slice(0, 10)) {
+      console.log(`  ${entry.rank}. ${entry.sceneId} at ${entry.baseParcel} (${entry.title || 'untitled'}): score ${entry.score.toFixed(2)}, ${entry.parcels} parcels, ${entry.failureCount} failures${entry.nearestHotspot ? `, near ${entry.nearestHotspot}` : ''}`);
+    }
+
+    // Per-region coverage (an invalid region file leaves regions out of the report)
+    let regions: RegionCoverage[] = [];
+    try {
+      regions = processor.getRegionStatistics(worldData, loadRegionDefinitions(CONFIG.REGIONS_FILE));
+      if (regions.length > 0) {
+        console.log(`\n🗺️ Region Coverage (${CONFIG.REGIONS_FILE}):`);
+      }
+      for (const { region, stats: regionStats } of regions) {
+        console.log(`  - ${region.name}: ${regionStats.scenesWithOptimizedAssets}/${regionStats.totalScenes} scenes optimized (${regionStats.optimizationPercentage.toFixed(1)}%), ${regionStats.failedOptimizations} failed, ${regionStats.occupiedLands}/${regionStats.totalLands} lands occupied`);
+      }
+    } catch (error) {
+      console.error('Failed to load region definitions, leaving regions out of the report:', error);
+    }
 
     // Step 4: Fetch and check Worlds optimization
     console.log('\n🌍 Step 4: Fetching Decentraland Worlds...');
     onProgress?.(88, 'Fetching Decentraland Worlds...');
-    const worldsAPI = new WorldsAPI();
+    const worldsAPI = new WorldsAPI(scheduler);
     const worldsList = await worldsAPI.fetchWorlds();
     const worldsData = await worldsAPI.checkWorldsOptimization(worldsList);
 
+    // Step 4b: Wearables and emotes (a failure here leaves them out of the report)
+    let entityCoverage: EntityCoverage | undefined;
+    const activeIds = new Set(scenes.map(s => s.id));
+    let itemsChecked = true;
+    if (CONFIG.REPORT_ENTITY_TYPES.length > 0) {
+      console.log(`\n🧥 Step 4b: Checking ${CONFIG.REPORT_ENTITY_TYPES.join(' and ')} coverage...`);
+      onProgress?.(91, 'Checking wearables and emotes...');
+      try {
+        const collectionsAPI = new CollectionsAPI(scheduler);
+        const items = await collectionsAPI.fetchItems(CONFIG.REPORT_ENTITY_TYPES);
+        // Same bucket listing as the scene pass; unchanged report objects are reused from the stored state
+        const checkedItems = await api.checkOptimizationStatus(items, undefined, undefined, itemId => stateStore.get(itemId));
+        stateStore.update(checkedItems);
+        checkedItems.forEach(item => activeIds.add(item.id));
+        entityCoverage = processor.getEntityCoverage(checkedItems, CONFIG.REPORT_ENTITY_TYPES);
+
+        for (const [type, coverage] of Object.entries(entityCoverage)) {
+          console.log(`  - ${type}: ${coverage.optimized}/${coverage.total} optimized (${coverage.optimizationPercentage.toFixed(1)}%), ${coverage.failed} failed`);
+        }
+      } catch (error) {
+        console.error('Failed to check wearables and emotes, leaving them out of the report:', error);
+        itemsChecked = false;
+      }
+    }
+
+    // Drop entities that are no longer active so the state file does not grow forever;
+    // when the item check failed, the stored item state is kept for the next run
+    if (itemsChecked) {
+      stateStore.retain(activeIds);
+    }
+    stateStore.save();
+
     console.log('\n📝 Step 5: Generating report data...');
     onProgress?.(95, 'Generating report data...');
     const generator = new ReportGenerator();
-    const reportData = generator.generateReportData(worldData, stats, worldsData);
-
-    // Step 6: Upload JSON data to CloudFlare R2 (optional)
-    if (!options.skipR2Upload) {
-      console.log('\n☁️ Step 6: Uploading report data to R2...');
-      const uploader = new R2Uploader();
-      await uploader.uploadReportData(reportData);
-      console.log('🌐 React frontend will fetch data from R2 at runtime.');
+    const reportData = generator.generateReportData(worldData, stats, worldsData, versions, entityCoverage, regions);
+    const reportExport = buildReportExport(scenes, worldsData.worlds);
+    console.log(`Built exports: ${reportExport.scenes.length} scenes, ${reportExport.worlds.length} world scenes`);
+
+    // Step 6: Publish to every configured target; a failing target fails the run once all were tried
+    const publishTargets = options.publishTargets ?? CONFIG.PUBLISH_TARGETS;
+    let published: PublishResult[] = [];
+    if (fixtureMode === 'replay') {
+      console.log('\n💾 Step 6: Skipping publishing (replaying fixtures)');
+    } else if (publishTargets.length === 0) {
+      console.log('\n💾 Step 6: Skipping publishing (no publish targets configured)');
     } else {
-      console.log('\n💾 Step 6: Skipping R2 upload (local storage mode)');
+      console.log(`\n☁️ Step 6: Publishing report to ${publishTargets.join(', ')}...`);
+      onProgress?.(98, 'Publishing report...');
+      const encoded = await encodeReport(reportData);
+      console.log(`Encoded report ${encoded.etag}: ${formatEncodedSizes(encoded)}`);
+      published = await publishReport(publishTargets, {
+        reportData,
+        encoded,
+        reportExport,
+        plan,
+        timestamp: new Date().toISOString()
+      }, options.publishers);
+    }
+    const failedTargets = published.filter(result => !result.success);
+
+    const requests = scheduler.getStats();
+    console.log('\n📶 Outbound requests by host:');
+    for (const host of requests) {
+      console.log(`  - ${host.host}: ${host.requests} requests, ${host.errors} errors (${host.throttled} throttled), avg ${host.avgLatencyMs}ms, max ${host.maxLatencyMs}ms, final concurrency ${host.concurrency}`);
     }
 
-    console.log('\n✅ Report generation complete!');
+    if (fixtures) {
+      console.log(`🎞️ ${fixtures.requestCount} requests ${fixtureMode === 'record' ? 'recorded into' : 'replayed from'} ${fixtureDir}`);
+    }
+
+    checkpoints.complete(checkpoint);
+    if (failedTargets.length > 0) {
+      console.log(`\n⚠️ Report generated, but publishing failed for ${failedTargets.map(result => result.target).join(', ')}`);
+    } else {
+      console.log('\n✅ Report generation complete!');
+    }
 
     return {
-      success: true,
+      success: failedTargets.length === 0,
+      runId,
+      resumed,
       stats: {
         totalLands: stats.totalLands,
         occupiedLands: stats.occupiedLands,
         totalScenes: stats.totalScenes,
-        optimizationPercentage: stats.optimizationPercentage
+        optimizationPercentage: stats.optimizationPercentage,
+        skippedScenes
       },
-      reportData
+      reportData,
+      reportExport,
+      plan,
+      published,
+      consistency: consistency ?? undefined,
+      requests,
+      error: failedTargets.length > 0
+        ? `Publishing failed: ${failedTargets.map(result => `${result.target} (${result.error})`).join(', ')}`
+        : undefined
     };
 
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     console.error('\n❌ Error generating report:', error);
+    if (runId) {
+      console.log(`Run ${runId} is checkpointed and can be resumed`);
+    }
     return {
       success: false,
+      runId,
       error: errorMessage
     };
+  } finally {
+    stopFixtures?.();
+  }
+}
+
+/**
+ * Check the optimization status of Decentraland Worlds only, without the Genesis City sweep.
+ * Nothing is published: a report without Genesis City would replace the published map with an empty one.
+ */
+export async function runWorldsCheck(): Promise<WorldsCheckResult> {
+  console.log('🌍 Checking Decentraland Worlds (Genesis City is skipped, nothing is published)');
+  console.log('='.repeat(60));
+
+  try {
+    const worldsAPI = new WorldsAPI(new RequestScheduler());
+    const worldsList = await worldsAPI.fetchWorlds();
+    const { worlds, stats } = await worldsAPI.checkWorldsOptimization(worldsList);
+
+    console.log('\n📊 Worlds Statistics:');
+    console.log(`  - Total Worlds: ${stats.totalWorlds}`);
+    console.log(`  - Optimized Worlds: ${stats.optimizedWorlds}`);
+    console.log(`  - Partially Optimized Worlds: ${stats.partiallyOptimizedWorlds ?? 0}`);
+    console.log(`  - Not Optimized Worlds: ${stats.notOptimizedWorlds}`);
+    console.log(`  - Failed Worlds: ${stats.failedWorlds}`);
+    console.log(`  - Optimization Coverage: ${stats.optimizationPercentage.toFixed(1)}%`);
+    console.log('\n✅ Worlds check complete!');
+
+    return { success: true, worlds, stats };
+  } catch (error) {
+    console.error('\n❌ Error checking worlds:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
 }
@@ -0,0 +1,182 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CONFIG } from './config';
+import { OptimizationCheckpoint, OptimizationReport, Scene } from './types';
+
+const CHECKPOINT_FILE_VERSION = 1;
+
+interface RunCheckpointFile {
+  version: number;
+  runId: string;
+  startedAt: string;
+  updatedAt: string;
+  incremental: boolean;
+  scenes?: Scene[];
+  staleSceneIds?: string[];
+  optimizedSceneIds?: string[];
+  reports: Record<string, OptimizationReport | null>;
+}
+
+/**
+ * Progress of a single report run: the fetched scenes, the optimized set and
+ * the reports fetched so far. Written to disk periodically so a restarted run
+ * can continue where the previous one stopped.
+ */
+export class RunCheckpoint implements OptimizationCheckpoint {
+  private lastFlush = 0;
+  private dirty = false;
+
+  constructor(private filePath: string, private data: RunCheckpointFile) {}
+
+  public get runId(): string {
+    return this.data.runId;
+  }
+
+  public get startedAt(): string {
+    return this.data.startedAt;
+  }
+
+  public get incremental(): boolean {
+    return this.data.incremental;
+  }
+
+  public get reportCount(): number {
+    return Object.keys(this.data.reports).length;
+  }
+
+  public getScenes(): Scene[] | undefined {
+    return this.data.scenes;
+  }
+
+  public setScenes(scenes: Scene[]): void {
+    // Copy so later status updates on the scene objects do not end up in the checkpoint
+    this.data.scenes = scenes.map(scene => ({ ...scene }));
+    this.flush(true);
+  }
+
+  public getStaleSceneIds(): string[] | undefined {
+    return this.data.staleSceneIds;
+  }
+
+  public setStaleSceneIds(sceneIds: string[]): void {
+    this.data.staleSceneIds = sceneIds;
+    this.flush(true);
+  }
+
+  public getOptimizedSceneIds(): string[] | undefined {
+    return this.data.optimizedSceneIds;
+  }
+
+  public setOptimizedSceneIds(sceneIds: string[]): void {
+    this.data.optimizedSceneIds = sceneIds;
+    this.flush(true);
+  }
+
+  public getReport(sceneId: string): OptimizationReport | null | undefined {
+    return this.data.reports[sceneId];
+  }
+
+  // Only the report summary is kept: `details` holds the raw report body (godot logs included) and would bloat every flush
+  public recordReport(sceneId: string, report: OptimizationReport | null): void {
+    if (report) {
+      const { details, ...summary } = report;
+      this.data.reports[sceneId] = summary;
+    } else {
+      this.data.reports[sceneId] = null;
+    }
+    this.dirty = true;
+  }
+
+  // Write the checkpoint, at most once per CHECKPOINT_INTERVAL_SECONDS unless forced
+  public flush(force = false): void {
+    const intervalMs = CONFIG.CHECKPOINT_INTERVAL_SECONDS * 1000;
+    if (!force && (!this.dirty || Date.now() - this.lastFlush < intervalMs)) {
+      return;
+    }
+
+    this.data.updatedAt = new Date().toISOString();
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    // Write to a temporary file first so a crash mid-write keeps the previous checkpoint
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(this.data));
+    fs.renameSync(tmpPath, this.filePath);
+
+    this.lastFlush = Date.now();
+    this.dirty = false;
+  }
+}
+
+/**
+ * Stores one checkpoint file per run id. A checkpoint is removed once its run
+ * completes, so any file left behind belongs to an interrupted run.
+ */
+export class RunCheckpointStore {
+  constructor(private dir: string) {}
+
+  private getPath(runId: string): string {
+    return path.join(this.dir, `${runId}.json`);
+  }
+
+  private listFiles(): string[] {
+    if (!fs.existsSync(this.dir)) {
+      return [];
+    }
+    return fs.readdirSync(this.dir).filter(file => file.endsWith('.json'));
+  }
+
+  // Start a new run; checkpoints of older runs are superseded and removed
+  public create(incremental: boolean): RunCheckpoint {
+    for (const file of this.listFiles()) {
+      fs.rmSync(path.join(this.dir, file), { force: true });
+    }
+
+    const now = new Date();
+    const runId = `run-${now.toISOString().replace(/[:.]/g, '-')}`;
+    const checkpoint = new RunCheckpoint(this.getPath(runId), {
+      version: CHECKPOINT_FILE_VERSION,
+      runId,
+      startedAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      incremental,
+      reports: {}
+    });
+    checkpoint.flush(true);
+    return checkpoint;
+  }
+
+  /**
+   * Find the most recent interrupted run that is younger than maxAgeMs.
+   * Unreadable, outdated or expired checkpoints are removed.
+   */
+  public findInterrupted(maxAgeMs: number): RunCheckpoint | null {
+    let latest: RunCheckpoint | null = null;
+
+    for (const file of this.listFiles()) {
+      const filePath = path.join(this.dir, file);
+      try {
+        const data: RunCheckpointFile = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        const age = Date.now() - new Date(data.startedAt).getTime();
+
+        if (data.version !== CHECKPOINT_FILE_VERSION || !(age < maxAgeMs)) {
+          console.log(`Discarding checkpoint ${data.runId} (version ${data.version}, started ${data.startedAt})`);
+          fs.rmSync(filePath, { force: true });
+          continue;
+        }
+
+        if (!latest || data.startedAt > latest.startedAt) {
+          latest = new RunCheckpoint(filePath, data);
+        }
+      } catch (error: any) {
+        console.error(`Failed to read checkpoint ${filePath}:`, error.message);
+        fs.rmSync(filePath, { force: true });
+      }
+    }
+
+    return latest;
+  }
+
+  public complete(checkpoint: RunCheckpoint): void {
+    fs.rmSync(this.getPath(checkpoint.runId), { force: true });
+  }
+}
@@ -0,0 +1,196 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { RedeployRegression, Scene, SceneState } from './types';
+
+const STATE_FILE_VERSION = 1;
+
+// Last entity seen with optimized assets on a parcel
+interface OptimizedParcel {
+  entityId: string;
+  timestamp?: number;
+}
+
+interface SceneStateFile {
+  version: number;
+  updatedAt: string;
+  scenes: Record<string, SceneState>;
+  parcels?: Record<string, OptimizedParcel>; // absent in state written before redeploy tracking
+}
+
+/**
+ * Keeps the per-scene result of the last run on disk so incremental runs
+ * only re-check scenes that are new, have no report yet, or are older than the TTL.
+ */
+export class SceneStateStore {
+  private scenes: Map<string, SceneState> = new Map();
+  private parcels: Map<string, OptimizedParcel> = new Map();
+
+  constructor(private filePath: string) {}
+
+  public load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      console.log(`No previous scene state found at ${this.filePath}`);
+      return;
+    }
+
+    try {
+      const file: SceneStateFile = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      if (file.version !== STATE_FILE_VERSION) {
+        console.log(`Ignoring scene state with unsupported version ${file.version}`);
+        return;
+      }
+      this.scenes = new Map(Object.entries(file.scenes || {}));
+      this.parcels = new Map(Object.entries(file.parcels || {}));
+      console.log(`Loaded state for ${this.scenes.size} scenes (last updated ${file.updatedAt})`);
+    } catch (error: any) {
+      console.error(`Failed to read scene state from ${this.filePath}:`, error.message);
+      this.scenes.clear();
+      this.parcels.clear();
+    }
+  }
+
+  public save(): void {
+    const file: SceneStateFile = {
+      version: STATE_FILE_VERSION,
+      updatedAt: new Date().toISOString(),
+      scenes: Object.fromEntries(this.scenes),
+      parcels: Object.fromEntries(this.parcels)
+    };
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(file));
+    console.log(`Saved state for ${this.scenes.size} scenes to ${this.filePath}`);
+  }
+
+  public get(sceneId: string): SceneState | undefined {
+    return this.scenes.get(sceneId);
+  }
+
+  /**
+   * Split scenes into those that must be checked again and those whose stored
+   * state can be reused. A scene is reused only when its entity id is known,
+   * it already has a report, and its state is younger than ttlMs.
+   */
+  public partition(scenes: Scene[], ttlMs: number): { stale: Scene[]; fresh: Scene[] } {
+    const now = Date.now();
+    const stale: Scene[] = [];
+    const fresh: Scene[] = [];
+
+    for (const scene of scenes) {
+      const state = this.scenes.get(scene.id);
+      const isFresh = state !== undefined
+        && state.reportStatus !== 'none'
+        && now - new Date(state.checkedAt).getTime() < ttlMs;
+
+      (isFresh ? fresh : stale).push(scene);
+    }
+
+    return { stale, fresh };
+  }
+
+  // Restore the optimization status of a scene from its stored state
+  public apply(scene: Scene): Scene {
+    const state = this.scenes.get(scene.id);
+    if (!state) {
+      return scene;
+    }
+
+    return {
+      ...scene,
+      hasOptimizedAssets: state.optimized,
+      optimizationReport: state.report ? { sceneId: scene.id, ...state.report } : undefined
+    };
+  }
+
+  // A failed report counts once: re-reading the same report object (same ETag or timestamp) does not add to it
+  private countFailures(sceneId: string, report: Scene['optimizationReport']): number {
+    const previous = this.scenes.get(sceneId);
+    const count = previous?.failureCount ?? (previous?.reportStatus === 'failed' ? 1 : 0);
+    if (!report || report.success) {
+      return count;
+    }
+
+    const sameReport = previous?.reportStatus === 'failed' && previous.report
+      && (report.etag ? previous.report.etag === report.etag : previous.report.timestamp === report.timestamp);
+    return sameReport ? Math.max(count, 1) : count + 1;
+  }
+
+  // Record freshly checked scenes
+  public update(scenes: Scene[]): void {
+    const checkedAt = new Date().toISOString();
+
+    for (const scene of scenes) {
+      const report = scene.optimizationReport;
+      this.scenes.set(scene.id, {
+        entityId: scene.id,
+        optimized: scene.hasOptimizedAssets || false,
+        reportStatus: report ? (report.success ? 'success' : 'failed') : 'none',
+        report: report ? {
+          format: report.format,
+          success: report.success,
+          fatalError: report.fatalError,
+          timestamp: report.timestamp,
+          error: report.error,
+          failure: report.failure,
+          metrics: report.metrics,
+          etag: report.etag
+        } : undefined,
+        failureCount: this.countFailures(scene.id, report),
+        checkedAt
+      });
+    }
+  }
+
+  /**
+   * Compare the current scenes against the last optimized entity of each parcel.
+   * Returns the parcels whose previous entity was optimized but whose current,
+   * newer entity is not, then records the optimized entities of this run.
+   * Parcels stay regressed across runs until their current entity is optimized.
+   */
+  public trackRedeploys(scenes: Scene[]): RedeployRegression[] {
+    const regressions: RedeployRegression[] = [];
+    const occupied = new Set<string>();
+
+    for (const scene of scenes) {
+      for (const pointer of scene.pointers) {
+        occupied.add(pointer);
+        const previous = this.parcels.get(pointer);
+
+        if (scene.hasOptimizedAssets) {
+          this.parcels.set(pointer, { entityId: scene.id, timestamp: scene.timestamp });
+          continue;
+        }
+
+        // An older entity showing up again (e.g. a lagging content server) is not a redeploy
+        const isNewer = previous?.timestamp === undefined || scene.timestamp === undefined
+          || scene.timestamp > previous.timestamp;
+        if (previous && previous.entityId !== scene.id && isNewer) {
+          regressions.push({
+            pointer,
+            sceneId: scene.id,
+            previousSceneId: previous.entityId,
+            redeployedAt: scene.timestamp
+          });
+        }
+      }
+    }
+
+    // Parcels that are empty now have nothing left to regress
+    for (const pointer of this.parcels.keys()) {
+      if (!occupied.has(pointer)) {
+        this.parcels.delete(pointer);
+      }
+    }
+
+    return regressions;
+  }
+
+  // Drop scenes (and wearables and emotes) that are no longer active
+  public retain(sceneIds: Set<string>): void {
+    for (const sceneId of this.scenes.keys()) {
+      if (!sceneIds.has(sceneId)) {
+        this.scenes.delete(sceneId);
+      }
+    }
+  }
+}
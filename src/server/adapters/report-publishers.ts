@@ -0,0 +1,38 @@
+import type { ILoggerComponent } from '@well-known-components/interfaces'
+import type { ReportPublisher } from '../../publishers/report-publisher'
+import { updateHistory } from '../logic/history'
+import type { IPostgresComponent, IReportStorage } from '../types'
+
+interface ReportPublishersComponents {
+  logs: ILoggerComponent
+  reportStorage: IReportStorage
+  postgres: IPostgresComponent
+}
+
+// Publish targets only the server has: the in-memory report storage behind /api/report-data
+// and the Postgres history table behind /api/get-history
+export function createServerPublishers(components: ReportPublishersComponents): ReportPublisher[] {
+  const { logs, reportStorage, postgres } = components
+  const logger = logs.getLogger('report-publishers')
+
+  const reportStoragePublisher: ReportPublisher = {
+    target: 'report-storage',
+    async publish({ reportData, reportExport, plan, encoded }) {
+      reportStorage.setReport(reportData, encoded)
+      reportStorage.setExport(reportExport)
+      reportStorage.setPlan(plan)
+      return {}
+    }
+  }
+
+  const databasePublisher: ReportPublisher = {
+    target: 'database',
+    async publish({ reportData, timestamp }) {
+      await updateHistory(postgres, { timestamp, stats: reportData.s })
+      logger.info('Report stats recorded in history', { timestamp })
+      return {}
+    }
+  }
+
+  return [reportStoragePublisher, databasePublisher]
+}
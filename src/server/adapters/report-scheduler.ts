@@ -1,57 +1,166 @@
 import type { ILoggerComponent, IConfigComponent, IBaseComponent } from '@well-known-components/interfaces'
-import { runReportGeneration } from '../../report-runner'
-import type { IReportScheduler, IReportStorage } from '../types'
+import { findInterruptedRun, runReportGeneration, ReportGenerationResult } from '../../report-runner'
+import type { IFetchComponent, IPostgresComponent, IReportScheduler, IReportStorage, TriggerReportOptions } from '../types'
+import {
+  AutoEnqueuePolicy,
+  getAutoEnqueueAttempts,
+  loadAutoEnqueuePolicy,
+  runAutoEnqueue,
+  selectScenesToEnqueue
+} from '../logic/auto-enqueue'
+import { getProducerConfig } from '../logic/producer'
+import { createServerPublishers } from './report-publishers'
+import type { ObjectStorage } from '../../storage/object-storage'
 
 interface ReportSchedulerComponents {
   logs: ILoggerComponent
   config: IConfigComponent
   reportStorage: IReportStorage
+  postgres: IPostgresComponent
+  fetch: IFetchComponent
+  reportBucket: ObjectStorage | null
 }
 
 export function createReportScheduler(
   components: ReportSchedulerComponents
 ): IReportScheduler {
-  const { logs, config, reportStorage } = components
+  const { logs, config, reportStorage, reportBucket } = components
   const logger = logs.getLogger('report-scheduler')
+  const publishers = createServerPublishers(components)
 
   let scheduleInterval: NodeJS.Timeout | undefined
   let isRunning = false
   let currentReportPromise: Promise<void> | undefined
+  let incremental = false
+  // Every run is recorded in the Postgres history, and its snapshot goes to the reports bucket
+  // whenever there is one, so /api/report-history has data
+  let publishTargets = reportBucket ? ['report-storage', 'database', 's3'] : ['report-storage', 'database']
+  let autoEnqueuePolicy: AutoEnqueuePolicy | null = null
 
-  async function runReport(): Promise<void> {
+  // Submit the scenes the report found unoptimized to the producer; never fails the run
+  async function autoEnqueue(result: ReportGenerationResult): Promise<void> {
+    if (!autoEnqueuePolicy || !result.reportData) return
+
+    try {
+      const attempts = await getAutoEnqueueAttempts(components.postgres)
+      const candidates = selectScenesToEnqueue(result.reportData, result.plan, attempts, autoEnqueuePolicy)
+      const runId = result.runId || new Date().toISOString()
+
+      if (candidates.length === 0) {
+        logger.info('Auto-enqueue found no scenes to submit', { runId })
+        return
+      }
+
+      if (autoEnqueuePolicy.dryRun) {
+        logger.info('Auto-enqueue dry run, nothing submitted', {
+          runId,
+          scenes: candidates.length,
+          noReport: candidates.filter(candidate => candidate.reason === 'no-report').length,
+          failed: candidates.filter(candidate => candidate.reason === 'failed').length,
+          sceneIds: candidates.map(candidate => candidate.sceneId).join(',')
+        })
+      }
+
+      const producer = await getProducerConfig(config)
+      const entries = await runAutoEnqueue(components, producer, runId, candidates, autoEnqueuePolicy)
+      if (!autoEnqueuePolicy.dryRun) {
+        const failed = entries.filter(entry => entry.status === 'failed')
+        logger.info('Auto-enqueue submitted scenes', {
+          runId,
+          queued: entries.length - failed.length,
+          failed: failed.length
+        })
+        if (failed.length > 0) {
+          logger.warn('Auto-enqueue could not queue some scenes', {
+            runId,
+            error: failed[0].error || 'Unknown error'
+          })
+        }
+      }
+    } catch (error) {
+      logger.error('Auto-enqueue failed', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  }
+
+  async function runReport(options: TriggerReportOptions = {}): Promise<void> {
     if (isRunning) {
       logger.info('Report generation already in progress, skipping')
       return
     }
 
     isRunning = true
-    logger.info('Starting scheduled report generation')
+    logger.info('Starting scheduled report generation', {
+      incremental: String(incremental),
+      fullRefresh: String(!!options.fullRefresh)
+    })
     reportStorage.setGenerating(true)
 
     try {
-      // Skip R2 upload - we store locally instead
+      // Interrupted runs are always resumed unless a full refresh was requested
       const result = await runReportGeneration({
-        skipR2Upload: true,
+        publishTargets,
+        publishers,
+        incremental,
+        fullRefresh: options.fullRefresh,
+        resume: true,
         onProgress: (percent, message) => {
           reportStorage.setProgress(percent)
           reportStorage.setProgressMessage(message)
         }
       })
 
-      if (result.success && result.stats) {
-        // Store report data in local storage
-        if (result.reportData) {
-          reportStorage.setReport(result.reportData)
-          logger.info('Report data stored in local storage')
+      for (const published of result.published || []) {
+        if (published.success) {
+          logger.info('Report published', {
+            target: published.target,
+            url: published.url || '',
+            durationMs: published.durationMs
+          })
+        } else {
+          logger.error('Report publishing failed', {
+            target: published.target,
+            error: published.error || 'Unknown error',
+            durationMs: published.durationMs
+          })
         }
+      }
 
+      if (result.success && result.stats) {
         logger.info('Report generation completed successfully', {
+          runId: result.runId || '',
+          resumed: String(!!result.resumed),
           totalLands: result.stats.totalLands,
           totalScenes: result.stats.totalScenes,
-          optimizationPercentage: result.stats.optimizationPercentage
+          optimizationPercentage: result.stats.optimizationPercentage,
+          skippedScenes: result.stats.skippedScenes
         })
+
+        for (const host of result.requests || []) {
+          logger.info('Outbound requests', {
+            host: host.host,
+            requests: host.requests,
+            errors: host.errors,
+            throttled: host.throttled,
+            avgLatencyMs: host.avgLatencyMs,
+            maxLatencyMs: host.maxLatencyMs
+          })
+        }
+
+        if (result.consistency && result.consistency.disagreementCount > 0) {
+          logger.warn('Content servers disagree on entity ids', {
+            sampledPointers: result.consistency.sampledPointers,
+            disagreements: result.consistency.disagreementCount
+          })
+        }
+
+        await autoEnqueue(result)
       } else if (!result.success) {
-        logger.error('Report generation failed', { error: result.error || 'Unknown error' })
+        logger.error('Report generation failed', {
+          runId: result.runId || '',
+          error: result.error || 'Unknown error'
+        })
       }
     } catch (error) {
       logger.error('Report generation threw an exception', {
@@ -74,14 +183,35 @@ export function createReportScheduler(
     const intervalHours = intervalHoursStr ? parseInt(intervalHoursStr, 10) : 3
     const intervalMs = intervalHours * 60 * 60 * 1000
 
+    incremental = (await config.getString('REPORT_INCREMENTAL')) === 'true'
+
+    // PUBLISH_TARGETS replaces the defaults, which serve the report from the server's own storage and database
+    const targets = (await config.getString('PUBLISH_TARGETS')) || ''
+    const configuredTargets = targets.split(',').map(target => target.trim()).filter(Boolean)
+    if (configuredTargets.length > 0) {
+      publishTargets = configuredTargets
+    }
+
+    autoEnqueuePolicy = await loadAutoEnqueuePolicy(config)
+
     logger.info('Report scheduler starting', {
       intervalHours,
-      intervalMs
+      intervalMs,
+      incremental: String(incremental),
+      publishTargets: publishTargets.join(','),
+      autoEnqueue: !autoEnqueuePolicy ? 'off' : autoEnqueuePolicy.dryRun ? 'dry-run' : 'on'
     })
 
-    // Check if we should run on startup
+    // Resume a run that was interrupted by a crash or redeploy, otherwise check if we should run on startup
+    const interruptedRun = findInterruptedRun()
     const runOnStartup = await config.getString('REPORT_RUN_ON_STARTUP')
-    if (runOnStartup === 'true') {
+    if (interruptedRun) {
+      logger.info('Resuming interrupted report run', {
+        runId: interruptedRun.runId,
+        startedAt: interruptedRun.startedAt
+      })
+      currentReportPromise = runReport()
+    } else if (runOnStartup === 'true') {
       logger.info('Running initial report on startup')
       // Run in background, don't block startup
       currentReportPromise = runReport()
@@ -114,14 +244,19 @@ export function createReportScheduler(
     logger.info('Report scheduler stopped')
   }
 
-  async function triggerReport(): Promise<void> {
-    logger.info('Manual report trigger requested')
-    await runReport()
+  async function triggerReport(options: TriggerReportOptions = {}): Promise<void> {
+    logger.info('Manual report trigger requested', { fullRefresh: String(!!options.fullRefresh) })
+    await runReport(options)
+  }
+
+  function publishesHistory(): boolean {
+    return reportBucket !== null && publishTargets.includes('s3')
   }
 
   return {
     start,
     stop,
-    triggerReport
+    triggerReport,
+    publishesHistory
   }
 }
@@ -1,8 +1,17 @@
 import type { ILoggerComponent, IBaseComponent } from '@well-known-components/interfaces'
+import type { ReportPayload } from '../../shared/report-schema'
+import type { ReportExport } from '../../report-export'
+import type { EncodedReport } from '../../report-encoding'
+import type { PriorityPlan } from '../../planner'
 
 export interface IReportStorage extends IBaseComponent {
   getReport(): ReportData | null
-  setReport(data: ReportData): void
+  getEncodedReport(): EncodedReport | null
+  setReport(data: ReportData, encoded: EncodedReport): void
+  getExport(): ReportExport | null
+  setExport(data: ReportExport): void
+  getPlan(): PriorityPlan | null
+  setPlan(plan: PriorityPlan): void
   getLastUpdated(): Date | null
   isGenerating(): boolean
   setGenerating(generating: boolean): void
@@ -12,14 +21,8 @@ export interface IReportStorage extends IBaseComponent {
   setProgressMessage(message: string): void
 }
 
-export interface ReportData {
-  l: any[]  // lands (only occupied)
-  s: any    // stats
-  c: Record<string, number>  // color indices for scenes
-  g: number  // generated timestamp
-  w?: any[]  // worlds array
-  ws?: any   // worlds stats
-}
+// Report payload as produced by ReportGenerator (see shared/report-schema)
+export type ReportData = ReportPayload
 
 interface ReportStorageComponents {
   logs: ILoggerComponent
@@ -32,6 +35,9 @@ export function createReportStorage(
   const logger = logs.getLogger('report-storage')
 
   let currentReport: ReportData | null = null
+  let currentEncoded: EncodedReport | null = null
+  let currentExport: ReportExport | null = null
+  let currentPlan: PriorityPlan | null = null
   let lastUpdated: Date | null = null
   let generating = false
   let progress = 0
@@ -41,6 +47,10 @@ export function createReportStorage(
     return currentReport
   }
 
+  function getEncodedReport(): EncodedReport | null {
+    return currentEncoded
+  }
+
   function isGenerating(): boolean {
     return generating
   }
@@ -72,16 +82,47 @@ export function createReportStorage(
     progressMessage = message
   }
 
-  function setReport(data: ReportData): void {
+  // The encoded variants are what /api/report-data serves; they must come from the same payload
+  function setReport(data: ReportData, encoded: EncodedReport): void {
     currentReport = data
+    currentEncoded = encoded
     lastUpdated = new Date()
     logger.info('Report data updated', {
+      formatVersion: data.v,
       landsCount: data.l?.length || 0,
       worldsCount: data.w?.length || 0,
+      etag: encoded.etag,
+      bytes: encoded.variants.identity.length,
+      gzipBytes: encoded.variants.gzip.length,
+      brotliBytes: encoded.variants.br.length,
       timestamp: lastUpdated.toISOString()
     })
   }
 
+  function getExport(): ReportExport | null {
+    return currentExport
+  }
+
+  function setExport(data: ReportExport): void {
+    currentExport = data
+    logger.info('Report export updated', {
+      scenes: data.scenes.length,
+      worldScenes: data.worlds.length
+    })
+  }
+
+  function getPlan(): PriorityPlan | null {
+    return currentPlan
+  }
+
+  function setPlan(plan: PriorityPlan): void {
+    currentPlan = plan
+    logger.info('Priority plan updated', {
+      candidates: plan.candidates,
+      planned: plan.scenes.length
+    })
+  }
+
   function getLastUpdated(): Date | null {
     return lastUpdated
   }
@@ -98,7 +139,12 @@ export function createReportStorage(
     start,
     stop,
     getReport,
+    getEncodedReport,
     setReport,
+    getExport,
+    setExport,
+    getPlan,
+    setPlan,
     getLastUpdated,
     isGenerating,
     setGenerating,
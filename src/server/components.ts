@@ -4,6 +4,7 @@ import { createLogComponent } from '@well-known-components/logger'
 import { createPostgresComponent } from './adapters/postgres'
 import { createReportScheduler } from './adapters/report-scheduler'
 import { createReportStorage } from './adapters/report-storage'
+import { createReportBucketStorage, getMissingReportBucketEnv } from '../storage/object-storage'
 import { AppComponents, GlobalContext, IFetchComponent } from './types'
 
 // Initialize all components for the application
@@ -37,8 +38,16 @@ export async function initComponents(): Promise<AppComponents> {
   // Report storage component (stores report data in memory)
   const reportStorage = createReportStorage({ logs })
 
+  // Reports bucket (history snapshots and their index); optional, history is disabled without it
+  const reportBucket = createReportBucketStorage()
+  if (!reportBucket) {
+    logs.getLogger('components').warn('Reports bucket not configured, report history is disabled', {
+      missing: getMissingReportBucketEnv().join(',')
+    })
+  }
+
   // Report scheduler component
-  const reportScheduler = createReportScheduler({ logs, config, reportStorage })
+  const reportScheduler = createReportScheduler({ logs, config, reportStorage, postgres, fetch, reportBucket })
 
   return {
     config,
@@ -47,6 +56,7 @@ export async function initComponents(): Promise<AppComponents> {
     fetch,
     postgres,
     reportScheduler,
-    reportStorage
+    reportStorage,
+    reportBucket
   }
 }
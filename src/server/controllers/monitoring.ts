@@ -19,6 +19,8 @@ import {
   getOptimizationResults,
   getOptimizationResultByEntityId
 } from '../logic/monitoring'
+import { getProducerConfig, queueTasks } from '../logic/producer'
+import { getAutoEnqueueRuns } from '../logic/auto-enqueue'
 import { EntityType } from '../types'
 
 // Rate limiting map for queue trigger
@@ -312,11 +314,8 @@ export async function queueBulkHandler(context: HandlerContext): Promise<IHttpSe
       }
     }
 
-    // Get producer configuration
-    const producerUrl = await components.config.getString('PRODUCER_URL')
-    const tmpSecret = await components.config.getString('PRODUCER_TMP_SECRET')
-
-    if (!producerUrl || !tmpSecret) {
+    const producer = await getProducerConfig(components.config)
+    if (!producer) {
       return {
         status: 500,
         body: {
@@ -329,75 +328,35 @@ export async function queueBulkHandler(context: HandlerContext): Promise<IHttpSe
     const validSceneIds = body.sceneIds.filter(id => id && typeof id === 'string' && id.trim() !== '')
     const invalidCount = body.sceneIds.length - validSceneIds.length
 
-    // Build entities array for bulk endpoint
     const entityType = body.entityType || 'scene'
-    const entities = validSceneIds.map(sceneId => ({
-      entity: {
-        entityId: sceneId.trim(),
-        entityType,
-        authChain: []
-      },
-      contentServerUrls: body.contentServerUrls || ['https://peer.decentraland.org/content']
-    }))
-
-    // Use the bulk endpoint
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), 55000)
-
-    try {
-      const response = await components.fetch.fetch(`${producerUrl}/queue-tasks`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': tmpSecret
-        },
-        body: JSON.stringify({
-          entities,
-          prioritize: true
-        }),
-        signal: controller.signal
-      })
-
-      clearTimeout(timeoutId)
-
-      if (!response.ok) {
-        const errorText = await response.text()
-        return {
-          status: response.status,
-          body: { error: `Producer returned error: ${errorText}` }
-        }
+    const result = await queueTasks(
+      components.fetch,
+      producer,
+      validSceneIds.map(sceneId => ({ entityId: sceneId.trim(), entityType })),
+      { prioritize: true, contentServerUrls: body.contentServerUrls }
+    )
+
+    if (!result.ok) {
+      return {
+        status: result.status,
+        body: { error: result.error }
       }
+    }
 
-      const result = await response.json() as any
-
-      // Add invalid sceneIds to failed count
-      if (invalidCount > 0) {
-        result.failed = (result.failed || 0) + invalidCount
-        result.results = result.results || { success: [], failed: [] }
-        for (let i = 0; i < invalidCount; i++) {
-          result.results.failed.push({ entityId: 'invalid', error: 'Invalid sceneId' })
-        }
-      }
+    // Add invalid sceneIds to failed count
+    for (let i = 0; i < invalidCount; i++) {
+      result.results.failed.push({ entityId: 'invalid', error: 'Invalid sceneId' })
+    }
 
-      return {
-        status: 200,
-        body: {
-          success: true,
-          total: body.sceneIds.length,
-          queued: result.queued || 0,
-          failed: result.failed || 0,
-          results: result.results || { success: [], failed: [] }
-        }
-      }
-    } catch (error: any) {
-      clearTimeout(timeoutId)
-      if (error.name === 'AbortError') {
-        return {
-          status: 504,
-          body: { error: 'Request to producer timed out' }
-        }
+    return {
+      status: 200,
+      body: {
+        success: true,
+        total: body.sceneIds.length,
+        queued: result.queued,
+        failed: result.failed + invalidCount,
+        results: result.results
       }
-      throw error
     }
   } catch (error: any) {
     logger.error('Error calling bulk queue endpoint', { error: error.message })
@@ -446,6 +405,34 @@ export async function failedJobsHandler(context: HandlerContext): Promise<IHttpS
   }
 }
 
+export async function autoEnqueueRunsHandler(context: HandlerContext): Promise<IHttpServerComponent.IResponse> {
+  const { components, url } = context
+  const logger = components.logs.getLogger('monitoring')
+
+  const limitParam = url.searchParams.get('limit')
+  const limit = limitParam ? parseInt(limitParam, 10) : 10
+  if (isNaN(limit) || limit < 1 || limit > 100) {
+    return {
+      status: 400,
+      body: { error: 'limit must be between 1 and 100' }
+    }
+  }
+
+  try {
+    const result = await getAutoEnqueueRuns(components.postgres, limit)
+    return {
+      status: 200,
+      body: result
+    }
+  } catch (error: any) {
+    logger.error('Error fetching auto-enqueue runs', { error: error.message })
+    return {
+      status: 500,
+      body: { error: 'Failed to fetch auto-enqueue runs: ' + error.message }
+    }
+  }
+}
+
 export async function setupDbHandler(context: HandlerContext): Promise<IHttpServerComponent.IResponse> {
   const { components, request } = context
   const logger = components.logs.getLogger('monitoring')
@@ -1,14 +1,20 @@
 import { IHttpServerComponent } from '@well-known-components/interfaces'
-import { HandlerContext } from '../types'
+import { HandlerContext, ReportTriggerRequest } from '../types'
+import { EXPORT_DATASETS, ExportDataset, getExportContentType } from '../../report-export'
+import { PlannedScene } from '../../planner'
+import { renderExport } from '../logic/report-export'
+import { getReportSnapshots } from '../logic/report-history'
+import { getPriorityPlan } from '../logic/priority-plan'
+import { getReportDiff } from '../logic/report-diff'
+import { selectReportVariant } from '../logic/report-encoding'
 
 export async function reportDataHandler(context: HandlerContext): Promise<IHttpServerComponent.IResponse> {
-  const { components } = context
+  const { components, request } = context
 
   try {
-    const reportData = components.reportStorage.getReport()
-    const lastUpdated = components.reportStorage.getLastUpdated()
+    const encoded = components.reportStorage.getEncodedReport()
 
-    if (!reportData) {
+    if (!encoded) {
       const isGenerating = components.reportStorage.isGenerating()
       const progress = components.reportStorage.getProgress()
       const progressMessage = components.reportStorage.getProgressMessage()
@@ -25,13 +31,33 @@ export async function reportDataHandler(context: HandlerContext): Promise<IHttpS
       }
     }
 
+    // Clients always revalidate; an unchanged report costs a 304 instead of the full body
+    const cacheHeaders = {
+      ETag: encoded.etag,
+      'Cache-Control': 'public, no-cache',
+      Vary: 'Accept-Encoding'
+    }
+
+    const variant = selectReportVariant(
+      encoded,
+      request.headers.get('accept-encoding'),
+      request.headers.get('if-none-match')
+    )
+    if (variant.notModified) {
+      return {
+        status: 304,
+        headers: cacheHeaders
+      }
+    }
+
     return {
       status: 200,
       headers: {
+        ...cacheHeaders,
         'Content-Type': 'application/json',
-        'Cache-Control': 'public, max-age=300' // Cache for 5 minutes
+        ...(variant.encoding !== 'identity' ? { 'Content-Encoding': variant.encoding } : {})
       },
-      body: reportData
+      body: variant.body
     }
   } catch (error: any) {
     components.logs.getLogger('report').error('Error fetching report data', { error: error.message })
@@ -54,7 +80,8 @@ export async function reportStatusHandler(context: HandlerContext): Promise<IHtt
       body: {
         available: reportData !== null,
         lastUpdated: lastUpdated?.toISOString() || null,
-        generated: reportData?.g ? new Date(reportData.g).toISOString() : null
+        generated: reportData?.g ? new Date(reportData.g).toISOString() : null,
+        formatVersion: reportData?.v ?? null
       }
     }
   } catch (error: any) {
@@ -65,3 +92,214 @@ export async function reportStatusHandler(context: HandlerContext): Promise<IHtt
     }
   }
 }
+
+export async function reportExportHandler(context: HandlerContext): Promise<IHttpServerComponent.IResponse> {
+  const { components, params, url } = context
+
+  try {
+    const dataset = params.dataset as ExportDataset
+    if (!EXPORT_DATASETS.includes(dataset)) {
+      return {
+        status: 404,
+        body: { error: `Unknown export '${params.dataset}', expected one of: ${EXPORT_DATASETS.join(', ')}` }
+      }
+    }
+
+    const reportExport = components.reportStorage.getExport()
+    if (!reportExport) {
+      return {
+        status: 503,
+        body: {
+          error: 'Report export not available yet.',
+          generating: components.reportStorage.isGenerating()
+        }
+      }
+    }
+
+    const result = renderExport(reportExport, dataset, url.searchParams)
+    if (!result.ok) {
+      return {
+        status: 400,
+        body: { error: result.error }
+      }
+    }
+
+    return {
+      status: 200,
+      headers: {
+        'Content-Type': getExportContentType(result.format),
+        'Content-Disposition': `attachment; filename="${dataset}.${result.format}"`,
+        'Cache-Control': 'public, max-age=300' // Cache for 5 minutes
+      },
+      body: result.body
+    }
+  } catch (error: any) {
+    components.logs.getLogger('report').error('Error exporting report data', { error: error.message })
+    return {
+      status: 500,
+      body: { error: 'Failed to export report data' }
+    }
+  }
+}
+
+export async function reportHistoryHandler(context: HandlerContext): Promise<IHttpServerComponent.IResponse> {
+  const { components, url } = context
+
+  try {
+    const since = url.searchParams.get('since')
+    const limit = url.searchParams.get('limit')
+    const sinceDate = since ? new Date(since) : undefined
+    const limitValue = limit ? parseInt(limit, 10) : undefined
+
+    if ((sinceDate && isNaN(sinceDate.getTime())) || (limitValue !== undefined && (isNaN(limitValue) || limitValue < 1))) {
+      return {
+        status: 400,
+        body: { error: 'Expected an ISO date for since and a positive number for limit' }
+      }
+    }
+
+    const result = await getReportSnapshots(components.reportBucket, {
+      since: sinceDate,
+      limit: limitValue,
+      publishesHistory: components.reportScheduler.publishesHistory()
+    })
+
+    if (!result.ok) {
+      return {
+        status: result.status,
+        body: { error: result.error }
+      }
+    }
+
+    return {
+      status: 200,
+      headers: {
+        'Cache-Control': 'public, max-age=300' // The index changes once per upload
+      },
+      body: result.history
+    }
+  } catch (error: any) {
+    components.logs.getLogger('report').error('Error fetching report history', { error: error.message })
+    return {
+      status: 500,
+      body: { error: 'Failed to fetch report history' }
+    }
+  }
+}
+
+export async function priorityPlanHandler(context: HandlerContext): Promise<IHttpServerComponent.IResponse> {
+  const { components, url } = context
+
+  try {
+    const status = url.searchParams.get('status') as PlannedScene['status'] | null
+    const limit = url.searchParams.get('limit')
+    const limitValue = limit ? parseInt(limit, 10) : undefined
+
+    if ((status && status !== 'failed' && status !== 'not-optimized') || (limitValue !== undefined && (isNaN(limitValue) || limitValue < 1))) {
+      return {
+        status: 400,
+        body: { error: "Expected 'failed' or 'not-optimized' for status and a positive number for limit" }
+      }
+    }
+
+    const plan = components.reportStorage.getPlan()
+    if (!plan) {
+      return {
+        status: 503,
+        body: {
+          error: 'Priority plan not available yet.',
+          generating: components.reportStorage.isGenerating()
+        }
+      }
+    }
+
+    return {
+      status: 200,
+      headers: {
+        'Cache-Control': 'public, max-age=300' // The plan changes once per report
+      },
+      body: getPriorityPlan(plan, { status: status || undefined, limit: limitValue })
+    }
+  } catch (error: any) {
+    components.logs.getLogger('report').error('Error fetching priority plan', { error: error.message })
+    return {
+      status: 500,
+      body: { error: 'Failed to fetch priority plan' }
+    }
+  }
+}
+
+export async function reportDiffHandler(context: HandlerContext): Promise<IHttpServerComponent.IResponse> {
+  const { components, url } = context
+
+  try {
+    const result = await getReportDiff(components.reportBucket, {
+      from: url.searchParams.get('from') || undefined,
+      to: url.searchParams.get('to') || undefined,
+      publishesHistory: components.reportScheduler.publishesHistory()
+    })
+
+    if (!result.ok) {
+      return {
+        status: result.status,
+        body: { error: result.error }
+      }
+    }
+
+    return {
+      status: 200,
+      headers: {
+        'Cache-Control': 'public, max-age=300' // The default pair changes once per upload
+      },
+      body: result.diff
+    }
+  } catch (error: any) {
+    components.logs.getLogger('report').error('Error diffing reports', { error: error.message })
+    return {
+      status: 500,
+      body: { error: 'Failed to diff reports' }
+    }
+  }
+}
+
+// Start a report run on demand; the run continues in the background
+export async function reportTriggerHandler(context: HandlerContext): Promise<IHttpServerComponent.IResponse> {
+  const { components, request } = context
+  const logger = components.logs.getLogger('report')
+
+  try {
+    const body = await request.json() as ReportTriggerRequest
+
+    // Verify secret
+    const expectedSecret = await components.config.getString('MONITORING_SECRET')
+    if (!expectedSecret || body.secret !== expectedSecret) {
+      return {
+        status: 401,
+        body: { error: 'Unauthorized' }
+      }
+    }
+
+    if (components.reportStorage.isGenerating()) {
+      return {
+        status: 409,
+        body: { error: 'Report generation already in progress' }
+      }
+    }
+
+    const fullRefresh = body.fullRefresh === true
+    components.reportScheduler.triggerReport({ fullRefresh }).catch((error: any) => {
+      logger.error('Triggered report generation failed', { error: error.message })
+    })
+
+    return {
+      status: 202,
+      body: { success: true, fullRefresh }
+    }
+  } catch (error: any) {
+    logger.error('Error triggering report generation', { error: error.message })
+    return {
+      status: 500,
+      body: { error: 'Failed to trigger report generation: ' + error.message }
+    }
+  }
+}
@@ -10,12 +10,21 @@ import {
   queueBulkHandler,
   rankingHandler,
   failedJobsHandler,
+  autoEnqueueRunsHandler,
   setupDbHandler,
   optimizationResultsHandler,
   optimizationResultByIdHandler,
   reportJsonHandler
 } from './monitoring'
-import { reportDataHandler, reportStatusHandler } from './report'
+import {
+  priorityPlanHandler,
+  reportDataHandler,
+  reportDiffHandler,
+  reportExportHandler,
+  reportHistoryHandler,
+  reportStatusHandler,
+  reportTriggerHandler
+} from './report'
 
 export async function setupRoutes(globalContext: GlobalContext): Promise<Router<GlobalContext>> {
   const router = new Router<GlobalContext>()
@@ -39,6 +48,7 @@ export async function setupRoutes(globalContext: GlobalContext): Promise<Router<
   router.post('/api/monitoring/queue-bulk', queueBulkHandler)
   router.get('/api/monitoring/ranking', rankingHandler)
   router.get('/api/monitoring/failed-jobs', failedJobsHandler)
+  router.get('/api/monitoring/auto-enqueue', autoEnqueueRunsHandler)
   router.post('/api/monitoring/setup-db', setupDbHandler)
 
   // Optimization results endpoints
@@ -51,6 +61,11 @@ export async function setupRoutes(globalContext: GlobalContext): Promise<Router<
   // Report data endpoints (local storage)
   router.get('/api/report-data', reportDataHandler)
   router.get('/api/report-status', reportStatusHandler)
+  router.get('/api/report-data/export/:dataset', reportExportHandler)
+  router.get('/api/report-history', reportHistoryHandler)
+  router.get('/api/priority-plan', priorityPlanHandler)
+  router.get('/api/report-diff', reportDiffHandler)
+  router.post('/api/report-trigger', reportTriggerHandler)
 
   return router
 }
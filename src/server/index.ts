@@ -1,3 +1,5 @@
+// Loaded before the components, whose modules read the environment into CONFIG when imported
+import 'dotenv/config'
 import { Lifecycle } from '@well-known-components/interfaces'
 import { initComponents } from './components'
 import { main } from './service'
@@ -0,0 +1,185 @@
+import { IConfigComponent } from '@well-known-components/interfaces'
+import type { ReportPayload } from '../../shared/report-schema'
+import type { PriorityPlan } from '../../planner'
+import { AutoEnqueueEntry, AutoEnqueueRun, IFetchComponent, IPostgresComponent } from '../types'
+import { ProducerConfig, queueTasks } from './producer'
+
+export interface AutoEnqueuePolicy {
+  maxPerRun: number
+  includeFailed: boolean
+  maxRetries: number    // failed scenes are submitted again until the policy queued them this many times
+  exclude: Set<string>  // entity ids and "x,y" parcels
+  dryRun: boolean
+}
+
+export interface EnqueueCandidate {
+  sceneId: string
+  reason: 'no-report' | 'failed'
+  attempts: number  // times the policy already queued the scene
+}
+
+// Null unless AUTO_ENQUEUE_ENABLED is true
+export async function loadAutoEnqueuePolicy(config: IConfigComponent): Promise<AutoEnqueuePolicy | null> {
+  if ((await config.getString('AUTO_ENQUEUE_ENABLED')) !== 'true') {
+    return null
+  }
+
+  const exclude = (await config.getString('AUTO_ENQUEUE_EXCLUDE')) || ''
+  return {
+    maxPerRun: parseInt((await config.getString('AUTO_ENQUEUE_MAX_PER_RUN')) || '100', 10),
+    includeFailed: (await config.getString('AUTO_ENQUEUE_INCLUDE_FAILED')) === 'true',
+    maxRetries: parseInt((await config.getString('AUTO_ENQUEUE_MAX_RETRIES')) || '2', 10),
+    exclude: new Set(exclude.split(/[;\s]+/).map(item => item.trim()).filter(Boolean)),
+    dryRun: (await config.getString('AUTO_ENQUEUE_DRY_RUN')) === 'true'
+  }
+}
+
+/**
+ * Pick the scenes a run should submit: unoptimized scenes without a report
+ * that were never queued by the policy, plus (when enabled) failed scenes
+ * queued fewer than `maxRetries` times. Scenes in the priority plan come
+ * first in plan order, the rest in report order, up to `maxPerRun`.
+ */
+export function selectScenesToEnqueue(
+  reportData: ReportPayload,
+  plan: PriorityPlan | undefined,
+  attempts: Map<string, number>,
+  policy: AutoEnqueuePolicy
+): EnqueueCandidate[] {
+  const candidates = new Map<string, EnqueueCandidate>()
+  const excluded = new Set<string>()
+
+  // Land format: [x, y, sceneId, hasOptimized, reportSuccess?]
+  for (const [x, y, sceneId, hasOptimized, reportSuccess] of reportData.l) {
+    if (policy.exclude.has(`${x},${y}`) || policy.exclude.has(sceneId)) {
+      excluded.add(sceneId)
+      continue
+    }
+    if (hasOptimized === 1 || candidates.has(sceneId)) continue
+
+    const previous = attempts.get(sceneId) || 0
+    if (reportSuccess === undefined && previous === 0) {
+      candidates.set(sceneId, { sceneId, reason: 'no-report', attempts: previous })
+    } else if (reportSuccess === 0 && policy.includeFailed && previous < policy.maxRetries) {
+      candidates.set(sceneId, { sceneId, reason: 'failed', attempts: previous })
+    }
+  }
+
+  const ranks = new Map((plan?.scenes || []).map(entry => [entry.sceneId, entry.rank]))
+  const ordered = Array.from(candidates.values())
+    .filter(candidate => !excluded.has(candidate.sceneId))
+    .map((candidate, index) => ({ candidate, index }))
+    .sort((a, b) => (ranks.get(a.candidate.sceneId) ?? Infinity) - (ranks.get(b.candidate.sceneId) ?? Infinity) || a.index - b.index)
+
+  return ordered.slice(0, Math.max(0, policy.maxPerRun)).map(({ candidate }) => candidate)
+}
+
+export async function ensureAutoEnqueueTable(postgres: IPostgresComponent): Promise<void> {
+  await postgres.query(`
+    CREATE TABLE IF NOT EXISTS auto_enqueue_history (
+      id SERIAL PRIMARY KEY,
+      run_id VARCHAR(64) NOT NULL,
+      scene_id VARCHAR(255) NOT NULL,
+      reason VARCHAR(20) NOT NULL,
+      status VARCHAR(20) NOT NULL,
+      error TEXT,
+      created_at TIMESTAMP DEFAULT NOW()
+    )
+  `)
+  await postgres.query(`CREATE INDEX IF NOT EXISTS idx_auto_enqueue_scene ON auto_enqueue_history(scene_id)`)
+  await postgres.query(`CREATE INDEX IF NOT EXISTS idx_auto_enqueue_created ON auto_enqueue_history(created_at DESC)`)
+}
+
+// How many times each scene was actually queued by the policy (dry runs and rejected submissions do not count)
+export async function getAutoEnqueueAttempts(postgres: IPostgresComponent): Promise<Map<string, number>> {
+  await ensureAutoEnqueueTable(postgres)
+  const result = await postgres.query(`
+    SELECT scene_id, COUNT(*)::int AS attempts
+    FROM auto_enqueue_history
+    WHERE status = 'queued'
+    GROUP BY scene_id
+  `)
+  return new Map(result.rows.map(row => [row.scene_id, row.attempts]))
+}
+
+/**
+ * Submit the selected scenes to the producer (or only record them in dry-run
+ * mode) and record one history row per scene under the run's id.
+ */
+export async function runAutoEnqueue(
+  components: { postgres: IPostgresComponent; fetch: IFetchComponent },
+  producer: ProducerConfig | null,
+  runId: string,
+  candidates: EnqueueCandidate[],
+  policy: AutoEnqueuePolicy
+): Promise<AutoEnqueueEntry[]> {
+  let entries: AutoEnqueueEntry[]
+
+  if (policy.dryRun) {
+    entries = candidates.map(({ sceneId, reason }) => ({ sceneId, reason, status: 'dry-run', error: null }))
+  } else if (!producer) {
+    throw new Error('Producer not configured. Set PRODUCER_URL and PRODUCER_TMP_SECRET environment variables.')
+  } else {
+    const result = await queueTasks(
+      components.fetch,
+      producer,
+      candidates.map(({ sceneId }) => ({ entityId: sceneId, entityType: 'scene' })),
+      { prioritize: false }
+    )
+
+    // A rejected request fails every scene of the run; otherwise only the ones the producer reports
+    const errors = new Map<string, string>()
+    if (result.ok) {
+      for (const failed of result.results.failed) {
+        const entityId = failed.entityId || failed.sceneId
+        if (entityId) errors.set(entityId, failed.error)
+      }
+    }
+    entries = candidates.map(({ sceneId, reason }) => {
+      const error = result.ok ? errors.get(sceneId) : result.error
+      return { sceneId, reason, status: error ? 'failed' : 'queued', error: error || null }
+    })
+  }
+
+  await ensureAutoEnqueueTable(components.postgres)
+  for (const entry of entries) {
+    await components.postgres.query(
+      `INSERT INTO auto_enqueue_history (run_id, scene_id, reason, status, error) VALUES ($1, $2, $3, $4, $5)`,
+      [runId, entry.sceneId, entry.reason, entry.status, entry.error]
+    )
+  }
+
+  return entries
+}
+
+// The most recent runs of the policy, newest first
+export async function getAutoEnqueueRuns(postgres: IPostgresComponent, limit: number): Promise<{ runs: AutoEnqueueRun[] }> {
+  await ensureAutoEnqueueTable(postgres)
+  const result = await postgres.query(`
+    SELECT run_id, scene_id, reason, status, error, created_at
+    FROM auto_enqueue_history
+    WHERE run_id IN (
+      SELECT run_id FROM auto_enqueue_history
+      GROUP BY run_id
+      ORDER BY MAX(created_at) DESC
+      LIMIT $1
+    )
+    ORDER BY created_at DESC, id
+  `, [limit])
+
+  const runs = new Map<string, AutoEnqueueRun>()
+  for (const row of result.rows) {
+    let run = runs.get(row.run_id)
+    if (!run) {
+      run = { runId: row.run_id, createdAt: row.created_at, queued: 0, failed: 0, dryRun: 0, entries: [] }
+      runs.set(row.run_id, run)
+    }
+    const entry: AutoEnqueueEntry = { sceneId: row.scene_id, reason: row.reason, status: row.status, error: row.error }
+    run.entries.push(entry)
+    if (entry.status === 'queued') run.queued++
+    else if (entry.status === 'failed') run.failed++
+    else run.dryRun++
+  }
+
+  return { runs: Array.from(runs.values()) }
+}
@@ -56,7 +56,7 @@ export async function getHistory(postgres: IPostgresComponent): Promise<{ entrie
 
 export async function updateHistory(
   postgres: IPostgresComponent,
-  data: UpdateHistoryRequest
+  data: Omit<UpdateHistoryRequest, 'secret'>
 ): Promise<{ success: boolean; message: string }> {
   const { timestamp, stats } = data
 
@@ -14,6 +14,8 @@ import {
   OptimizationResultsResponse,
   OptimizationResultsQuery
 } from '../types'
+import { classifyFailure, FailureClassification } from '../../shared/failure-classifier'
+import { ensureAutoEnqueueTable } from './auto-enqueue'
 
 const ENTITY_TYPES: EntityType[] = ['scene', 'wearable', 'emote']
 
@@ -61,6 +63,7 @@ export async function getMonitoringStatus(
   let consumers: Consumer[] = []
   let recentHistory: ProcessHistoryEntry[] = []
   let processedLastHour = 0
+  let failureCategories: Record<string, number> = {}
 
   // Get latest queue metrics per entity type
   try {
@@ -270,6 +273,9 @@ export async function getMonitoringStatus(
     `)
     processedLastHour = parseInt(countResult.rows[0]?.count || '0', 10)
 
+    // Count failures per category (history only holds the last 24 hours)
+    failureCategories = await getFailureCategoryCounts(postgres)
+
     // Cleanup old history entries (older than 24 hours)
     await postgres.query(`
       DELETE FROM pipeline_process_history
@@ -286,7 +292,24 @@ export async function getMonitoringStatus(
     queueHistoryByType,
     consumers,
     recentHistory,
-    processedLastHour
+    processedLastHour,
+    failureCategories
+  }
+}
+
+async function getFailureCategoryCounts(postgres: IPostgresComponent): Promise<Record<string, number>> {
+  try {
+    const result = await postgres.query(`
+      SELECT COALESCE(failure_category, 'unknown') as category, COUNT(*) as count
+      FROM pipeline_process_history
+      WHERE status = 'failed'
+      GROUP BY COALESCE(failure_category, 'unknown')
+      ORDER BY count DESC
+    `)
+    return Object.fromEntries(result.rows.map(row => [row.category, parseInt(row.count, 10)]))
+  } catch (e) {
+    // Table might not exist yet
+    return {}
   }
 }
 
@@ -375,6 +398,33 @@ export async function recordHeartbeat(
   return { success: true }
 }
 
+// Failure classification columns, added to existing databases on first use
+/**
+ * Add the failure classification columns to tables created before classification.
+ * Runs once at server startup and in setupDatabase, never on request paths: each
+ * ALTER TABLE locks the whole table. Tables created later already have the columns.
+ */
+export async function migrateFailureColumns(postgres: IPostgresComponent): Promise<void> {
+  for (const table of ['pipeline_process_history', 'optimization_results']) {
+    try {
+      await postgres.query(`ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS failure_category VARCHAR(30)`)
+      await postgres.query(`ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS failure_code VARCHAR(50)`)
+    } catch (e) {
+      // Table might not exist yet
+    }
+  }
+}
+
+// Classify a failed job by its error message and, when sent along, the errors and logs of its report
+function classifyJobFailure(errorMessage: string | undefined, reportJson: object | undefined): FailureClassification {
+  const report = (reportJson || {}) as { errors?: unknown[], godotLogs?: unknown[] }
+  return classifyFailure({
+    error: errorMessage,
+    errors: Array.isArray(report.errors) ? report.errors : undefined,
+    godotLogs: Array.isArray(report.godotLogs) ? report.godotLogs : undefined
+  })
+}
+
 export async function recordJobComplete(
   postgres: IPostgresComponent,
   data: JobCompleteRequest
@@ -394,6 +444,8 @@ export async function recordJobComplete(
     reportJson
   } = data
 
+  const failure = status === 'failed' ? classifyJobFailure(errorMessage, reportJson) : null
+
   // Create history table if it doesn't exist
   await postgres.query(`
     CREATE TABLE IF NOT EXISTS pipeline_process_history (
@@ -408,7 +460,9 @@ export async function recordJobComplete(
       error_message TEXT,
       created_at TIMESTAMP DEFAULT NOW(),
       is_priority BOOLEAN DEFAULT FALSE,
-      entity_type VARCHAR(20) DEFAULT 'scene'
+      entity_type VARCHAR(20) DEFAULT 'scene',
+      failure_category VARCHAR(30),
+      failure_code VARCHAR(50)
     )
   `)
 
@@ -434,8 +488,10 @@ export async function recordJobComplete(
       duration_ms,
       error_message,
       is_priority,
-      entity_type
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      entity_type,
+      failure_category,
+      failure_code
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
   `, [
     consumerId,
     sceneId,
@@ -446,7 +502,9 @@ export async function recordJobComplete(
     durationMs,
     errorMessage || null,
     isPriority || false,
-    entityType
+    entityType,
+    failure?.category || null,
+    failure?.code || null
   ])
 
   // Update consumer stats
@@ -497,7 +555,8 @@ export async function recordJobComplete(
     errorMessage,
     processMethod,
     completedAt,
-    reportJson
+    reportJson,
+    failure
   })
 
   return { success: true }
@@ -586,9 +645,13 @@ export interface FailedJobEntry {
   completedAt: string
   errorMessage: string | null
   entityType: EntityType
+  failureCategory: string | null
+  failureCode: string | null
 }
 
-export async function getFailedJobs(postgres: IPostgresComponent): Promise<{ failed: FailedJobEntry[], total: number }> {
+export async function getFailedJobs(
+  postgres: IPostgresComponent
+): Promise<{ failed: FailedJobEntry[], total: number, byCategory: Record<string, number> }> {
   try {
     // Get scenes where the MOST RECENT job status is 'failed'
     // This ensures that if a scene was reprocessed successfully, it won't appear here
@@ -598,7 +661,9 @@ export async function getFailedJobs(postgres: IPostgresComponent): Promise<{ fai
         process_method,
         completed_at,
         error_message,
-        entity_type
+        entity_type,
+        failure_category,
+        failure_code
       FROM (
         SELECT DISTINCT ON (scene_id)
           scene_id,
@@ -606,6 +671,8 @@ export async function getFailedJobs(postgres: IPostgresComponent): Promise<{ fai
           completed_at,
           error_message,
           entity_type,
+          failure_category,
+          failure_code,
           status
         FROM pipeline_process_history
         ORDER BY scene_id, completed_at DESC
@@ -619,12 +686,20 @@ export async function getFailedJobs(postgres: IPostgresComponent): Promise<{ fai
       processMethod: row.process_method,
       completedAt: row.completed_at,
       errorMessage: row.error_message,
-      entityType: row.entity_type || 'scene'
+      entityType: row.entity_type || 'scene',
+      failureCategory: row.failure_category,
+      failureCode: row.failure_code
     }))
 
-    return { failed, total: failed.length }
+    const byCategory: Record<string, number> = {}
+    for (const job of failed) {
+      const category = job.failureCategory || 'unknown'
+      byCategory[category] = (byCategory[category] || 0) + 1
+    }
+
+    return { failed, total: failed.length, byCategory }
   } catch (e) {
-    return { failed: [], total: 0 }
+    return { failed: [], total: 0, byCategory: {} }
   }
 }
 
@@ -680,7 +755,9 @@ export async function setupDatabase(postgres: IPostgresComponent): Promise<{ suc
       duration_ms INTEGER NOT NULL,
       error_message TEXT,
       created_at TIMESTAMP DEFAULT NOW(),
-      is_priority BOOLEAN DEFAULT FALSE
+      is_priority BOOLEAN DEFAULT FALSE,
+      failure_category VARCHAR(30),
+      failure_code VARCHAR(50)
     )
   `)
 
@@ -706,7 +783,9 @@ export async function setupDatabase(postgres: IPostgresComponent): Promise<{ suc
       completed_at TIMESTAMP NOT NULL,
       created_at TIMESTAMP DEFAULT NOW(),
       updated_at TIMESTAMP DEFAULT NOW(),
-      report_json JSONB
+      report_json JSONB,
+      failure_category VARCHAR(30),
+      failure_code VARCHAR(50)
     )
   `)
 
@@ -716,6 +795,7 @@ export async function setupDatabase(postgres: IPostgresComponent): Promise<{ suc
   } catch (e) {
     // Column might already exist
   }
+  await migrateFailureColumns(postgres)
 
   // Create indexes for optimization_results
   await postgres.query(`CREATE INDEX IF NOT EXISTS idx_optimization_results_entity ON optimization_results(entity_id)`)
@@ -723,6 +803,9 @@ export async function setupDatabase(postgres: IPostgresComponent): Promise<{ suc
   await postgres.query(`CREATE INDEX IF NOT EXISTS idx_optimization_results_type ON optimization_results(entity_type)`)
   await postgres.query(`CREATE INDEX IF NOT EXISTS idx_optimization_results_completed ON optimization_results(completed_at DESC)`)
 
+  // Create auto_enqueue_history table
+  await ensureAutoEnqueueTable(postgres)
+
   return { success: true, message: 'Database tables created successfully' }
 }
 
@@ -738,6 +821,7 @@ export async function recordOptimizationResult(
     processMethod?: string
     completedAt: string
     reportJson?: object
+    failure?: FailureClassification | null
   }
 ): Promise<{ success: boolean }> {
   const {
@@ -748,7 +832,8 @@ export async function recordOptimizationResult(
     errorMessage,
     processMethod,
     completedAt,
-    reportJson
+    reportJson,
+    failure
   } = data
 
   // Create table if it doesn't exist
@@ -764,7 +849,9 @@ export async function recordOptimizationResult(
       completed_at TIMESTAMP NOT NULL,
       created_at TIMESTAMP DEFAULT NOW(),
       updated_at TIMESTAMP DEFAULT NOW(),
-      report_json JSONB
+      report_json JSONB,
+      failure_category VARCHAR(30),
+      failure_code VARCHAR(50)
     )
   `)
 
@@ -786,8 +873,10 @@ export async function recordOptimizationResult(
       process_method,
       completed_at,
       updated_at,
-      report_json
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), $8)
+      report_json,
+      failure_category,
+      failure_code
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), $8, $9, $10)
     ON CONFLICT (entity_id) DO UPDATE SET
       entity_type = $2,
       status = $3,
@@ -796,7 +885,9 @@ export async function recordOptimizationResult(
       process_method = $6,
       completed_at = $7,
       updated_at = NOW(),
-      report_json = $8
+      report_json = $8,
+      failure_category = $9,
+      failure_code = $10
   `, [
     entityId,
     entityType,
@@ -805,7 +896,9 @@ export async function recordOptimizationResult(
     errorMessage || null,
     processMethod || null,
     new Date(completedAt),
-    reportJson ? JSON.stringify(reportJson) : null
+    reportJson ? JSON.stringify(reportJson) : null,
+    failure?.category || null,
+    failure?.code || null
   ])
 
   return { success: true }
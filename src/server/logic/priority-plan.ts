@@ -0,0 +1,21 @@
+import { PlannedScene, PriorityPlan } from '../../planner'
+import { PriorityPlanResponse } from '../types'
+
+/**
+ * The "optimize next" list of the latest report, best first.
+ * `status` keeps only failed or never optimized scenes; `limit` takes the top N.
+ */
+export function getPriorityPlan(
+  plan: PriorityPlan,
+  options: { status?: PlannedScene['status']; limit?: number } = {}
+): PriorityPlanResponse {
+  let scenes = plan.scenes
+  if (options.status) {
+    scenes = scenes.filter(scene => scene.status === options.status)
+  }
+  if (options.limit !== undefined) {
+    scenes = scenes.slice(0, options.limit)
+  }
+
+  return { generatedAt: plan.generatedAt, candidates: plan.candidates, planned: plan.scenes.length, scenes }
+}
@@ -0,0 +1,88 @@
+import { IConfigComponent } from '@well-known-components/interfaces'
+import { EntityType, IFetchComponent } from '../types'
+
+const DEFAULT_CONTENT_SERVER_URLS = ['https://peer.decentraland.org/content']
+const QUEUE_TASKS_TIMEOUT_MS = 55000
+
+export interface ProducerConfig {
+  producerUrl: string
+  secret: string
+}
+
+export interface QueueTasksEntity {
+  entityId: string
+  entityType: EntityType
+}
+
+export type QueueTasksResult =
+  | {
+      ok: true
+      queued: number
+      failed: number
+      results: { success: string[]; failed: { entityId?: string; sceneId?: string; error: string }[] }
+    }
+  | { ok: false; status: number; error: string }
+
+// Null when the entity-queue-producer is not configured
+export async function getProducerConfig(config: IConfigComponent): Promise<ProducerConfig | null> {
+  const producerUrl = await config.getString('PRODUCER_URL')
+  const secret = await config.getString('PRODUCER_TMP_SECRET')
+  return producerUrl && secret ? { producerUrl, secret } : null
+}
+
+/**
+ * Submit entities to the producer's bulk `/queue-tasks` endpoint.
+ * Producer errors and timeouts are returned with the status to answer with;
+ * network errors are thrown.
+ */
+export async function queueTasks(
+  fetch: IFetchComponent,
+  producer: ProducerConfig,
+  entities: QueueTasksEntity[],
+  options: { prioritize: boolean; contentServerUrls?: string[] }
+): Promise<QueueTasksResult> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), QUEUE_TASKS_TIMEOUT_MS)
+
+  try {
+    const response = await fetch.fetch(`${producer.producerUrl}/queue-tasks`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': producer.secret
+      },
+      body: JSON.stringify({
+        entities: entities.map(entity => ({
+          entity: {
+            entityId: entity.entityId,
+            entityType: entity.entityType,
+            authChain: []
+          },
+          contentServerUrls: options.contentServerUrls || DEFAULT_CONTENT_SERVER_URLS
+        })),
+        prioritize: options.prioritize
+      }),
+      signal: controller.signal
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      return { ok: false, status: response.status, error: `Producer returned error: ${errorText}` }
+    }
+
+    const result = await response.json() as any
+    return {
+      ok: true,
+      queued: result.queued || 0,
+      failed: result.failed || 0,
+      results: result.results || { success: [], failed: [] }
+    }
+  } catch (error: any) {
+    if (error.name === 'AbortError') {
+      return { ok: false, status: 504, error: 'Request to producer timed out' }
+    }
+    throw error
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
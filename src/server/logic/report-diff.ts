@@ -0,0 +1,72 @@
+import { diffReports } from '../../report-diff'
+import { HistorySnapshot, ReportHistory } from '../../report-history'
+import { ReportPayload, validateReportPayload } from '../../shared/report-schema'
+import { ObjectStorage } from '../../storage/object-storage'
+import { ReportDiffResponse } from '../types'
+import { getHistoryDisabledReason } from './report-history'
+
+export type ReportDiffResult =
+  | { ok: true; diff: ReportDiffResponse }
+  | { ok: false; status: number; error: string }
+
+async function loadSnapshot(reportBucket: ObjectStorage, snapshot: HistorySnapshot): Promise<ReportPayload | string> {
+  const body = await reportBucket.get(snapshot.key)
+  if (!body) {
+    return `Snapshot ${snapshot.timestamp} is indexed but missing from the bucket`
+  }
+
+  const validation = validateReportPayload(JSON.parse(body))
+  if (!validation.valid) {
+    return `Snapshot ${snapshot.timestamp} cannot be compared: ${validation.errors[0]}`
+  }
+  return validation.payload
+}
+
+/**
+ * Diff two history snapshots, identified by their timestamps.
+ * `to` defaults to the latest snapshot and `from` to the one before `to`.
+ */
+export async function getReportDiff(
+  reportBucket: ObjectStorage | null,
+  options: { from?: string; to?: string; publishesHistory: boolean }
+): Promise<ReportDiffResult> {
+  if (!reportBucket) {
+    return { ok: false, status: 503, error: getHistoryDisabledReason(reportBucket) }
+  }
+
+  const index = await new ReportHistory(reportBucket).loadIndex()
+  if (!index || index.snapshots.length === 0) {
+    if (!options.publishesHistory) {
+      return { ok: false, status: 503, error: getHistoryDisabledReason(reportBucket) }
+    }
+    return { ok: false, status: 503, error: 'No report snapshots yet. The history index is created on the next report upload.' }
+  }
+
+  // Snapshots are sorted newest first
+  const { snapshots } = index
+  const toIndex = options.to ? snapshots.findIndex(snapshot => snapshot.timestamp === options.to) : 0
+  if (toIndex === -1) {
+    return { ok: false, status: 404, error: `Snapshot ${options.to} not found` }
+  }
+  const fromIndex = options.from ? snapshots.findIndex(snapshot => snapshot.timestamp === options.from) : toIndex + 1
+  if (fromIndex === -1) {
+    return { ok: false, status: 404, error: `Snapshot ${options.from} not found` }
+  }
+  if (fromIndex >= snapshots.length) {
+    return { ok: false, status: 404, error: `No snapshot before ${snapshots[toIndex].timestamp} to compare with` }
+  }
+
+  const from = await loadSnapshot(reportBucket, snapshots[fromIndex])
+  if (typeof from === 'string') return { ok: false, status: 422, error: from }
+  const to = await loadSnapshot(reportBucket, snapshots[toIndex])
+  if (typeof to === 'string') return { ok: false, status: 422, error: to }
+
+  return {
+    ok: true,
+    diff: {
+      fromSnapshot: snapshots[fromIndex].timestamp,
+      toSnapshot: snapshots[toIndex].timestamp,
+      ...diffReports(from, to)
+    }
+  }
+}
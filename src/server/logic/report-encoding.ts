@@ -0,0 +1,47 @@
+import { CONTENT_ENCODINGS, ContentEncoding, EncodedReport } from '../../report-encoding'
+
+export type ReportVariant =
+  | { notModified: true }
+  | { notModified: false; encoding: ContentEncoding; body: Buffer }
+
+// Pick the most preferred encoding the client accepts (q > 0), falling back to identity
+export function negotiateEncoding(acceptEncoding: string | null): ContentEncoding {
+  const accepted = new Map<string, number>()
+  for (const part of (acceptEncoding || '').split(',')) {
+    const [name, ...params] = part.trim().toLowerCase().split(';')
+    if (!name) continue
+    const q = params.map(param => param.trim()).find(param => param.startsWith('q='))
+    accepted.set(name, q ? parseFloat(q.slice(2)) || 0 : 1)
+  }
+
+  const wildcard = accepted.get('*')
+  for (const encoding of CONTENT_ENCODINGS) {
+    const q = accepted.get(encoding) ?? wildcard
+    if (q !== undefined && q > 0) return encoding
+  }
+  return 'identity'
+}
+
+// Weak comparison as If-None-Match requires: W/ prefixes are ignored
+export function matchesEtag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false
+  if (ifNoneMatch.trim() === '*') return true
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, '')
+  return ifNoneMatch.split(',').some(tag => opaque(tag) === opaque(etag))
+}
+
+/**
+ * Choose what to send for a report request: nothing when the client's copy is
+ * current, otherwise the pre-encoded body in the best accepted encoding.
+ */
+export function selectReportVariant(
+  encoded: EncodedReport,
+  acceptEncoding: string | null,
+  ifNoneMatch: string | null
+): ReportVariant {
+  if (matchesEtag(ifNoneMatch, encoded.etag)) {
+    return { notModified: true }
+  }
+  const encoding = negotiateEncoding(acceptEncoding)
+  return { notModified: false, encoding, body: encoded.variants[encoding] }
+}
@@ -0,0 +1,48 @@
+import {
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  ExportDataset,
+  ExportFormat,
+  ReportExport,
+  filterExportRows,
+  formatExport
+} from '../../report-export'
+
+// Query parameters that are not column filters
+const RESERVED_PARAMS = ['format']
+
+export type ExportResult =
+  | { ok: true; body: string; format: ExportFormat; rows: number }
+  | { ok: false; error: string }
+
+// Keep rows whose column value matches one of the comma-separated values of each filter
+function filterRows<T extends object>(rows: T[], columns: (keyof T)[], searchParams: URLSearchParams): T[] | string {
+  const filters: [string, string[]][] = []
+  for (const [name, value] of searchParams.entries()) {
+    if (RESERVED_PARAMS.includes(name)) continue
+    filters.push([name, value.split(',')])
+  }
+
+  return filterExportRows(rows, columns, filters)
+}
+
+/**
+ * Serialize one export dataset in the requested format.
+ * Every query parameter except `format` filters on the column of the same name.
+ */
+export function renderExport(reportExport: ReportExport, dataset: ExportDataset, searchParams: URLSearchParams): ExportResult {
+  const format = (searchParams.get('format') || 'csv') as ExportFormat
+  if (!EXPORT_FORMATS.includes(format)) {
+    return { ok: false, error: `Unsupported format '${format}', expected one of: ${EXPORT_FORMATS.join(', ')}` }
+  }
+
+  if (dataset === 'scenes') {
+    const rows = filterRows(reportExport.scenes, EXPORT_COLUMNS.scenes, searchParams)
+    if (typeof rows === 'string') return { ok: false, error: rows }
+    return { ok: true, body: formatExport(rows, EXPORT_COLUMNS.scenes, format), format, rows: rows.length }
+  }
+
+  const rows = filterRows(reportExport.worlds, EXPORT_COLUMNS.worlds, searchParams)
+  if (typeof rows === 'string') return { ok: false, error: rows }
+  return { ok: true, body: formatExport(rows, EXPORT_COLUMNS.worlds, format), format, rows: rows.length }
+}
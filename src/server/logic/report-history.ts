@@ -0,0 +1,54 @@
+import { ReportHistory } from '../../report-history'
+import { ObjectStorage, getMissingReportBucketEnv } from '../../storage/object-storage'
+import { ReportHistoryResponse } from '../types'
+
+export type ReportHistoryResult =
+  | { ok: true; history: ReportHistoryResponse }
+  | { ok: false; status: number; error: string }
+
+// Why the server has no history to serve when the reports bucket is missing or not published to
+export function getHistoryDisabledReason(reportBucket: ObjectStorage | null): string {
+  return reportBucket
+    ? "History publishing is disabled. Add 's3' to PUBLISH_TARGETS to upload snapshots to the reports bucket."
+    : `History publishing is disabled because the reports bucket is not configured. Set ${getMissingReportBucketEnv().join(', ')}.`
+}
+
+/**
+ * List the history snapshots of the reports bucket, newest first.
+ * `since` and `limit` narrow the list for charts that only need recent snapshots.
+ * Without a bucket, or without an index the server will ever write, history is disabled.
+ */
+export async function getReportSnapshots(
+  reportBucket: ObjectStorage | null,
+  options: { since?: Date; limit?: number; publishesHistory: boolean }
+): Promise<ReportHistoryResult> {
+  if (!reportBucket) {
+    return { ok: false, status: 503, error: getHistoryDisabledReason(reportBucket) }
+  }
+
+  const index = await new ReportHistory(reportBucket).loadIndex()
+  if (!index) {
+    if (!options.publishesHistory) {
+      return { ok: false, status: 503, error: getHistoryDisabledReason(reportBucket) }
+    }
+    return {
+      ok: true,
+      history: {
+        snapshots: [],
+        updatedAt: null,
+        message: 'History index will be created on the next report upload.'
+      }
+    }
+  }
+
+  let snapshots = index.snapshots
+  if (options.since) {
+    const since = options.since.toISOString()
+    snapshots = snapshots.filter(snapshot => snapshot.timestamp >= since)
+  }
+  if (options.limit !== undefined) {
+    snapshots = snapshots.slice(0, options.limit)
+  }
+
+  return { ok: true, history: { snapshots, updatedAt: index.updatedAt } }
+}
@@ -1,6 +1,7 @@
 import { Lifecycle } from '@well-known-components/interfaces'
 import { setupRoutes } from './controllers/routes'
 import { AppComponents, GlobalContext } from './types'
+import { migrateFailureColumns } from './logic/monitoring'
 import * as fs from 'fs'
 import * as path from 'path'
 
@@ -78,6 +79,9 @@ export async function main(program: Lifecycle.EntryPointParameters<AppComponents
   // Start all components
   await startComponents()
 
+  // Columns added after the tables were first created; migrated here so request paths never alter tables
+  await migrateFailureColumns(components.postgres)
+
   logger.info('Server started successfully')
 }
 
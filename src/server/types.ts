@@ -5,6 +5,13 @@ import type {
   IBaseComponent
 } from '@well-known-components/interfaces'
 import type { Pool, QueryResult, QueryResultRow } from 'pg'
+import type { ReportPayload } from '../shared/report-schema'
+import type { ReportExport } from '../report-export'
+import type { EncodedReport } from '../report-encoding'
+import type { PlannedScene, PriorityPlan } from '../planner'
+import type { ReportDiff } from '../report-diff'
+import type { HistorySnapshot } from '../report-history'
+import type { ObjectStorage } from '../storage/object-storage'
 
 // PostgreSQL Component Interface
 export interface IPostgresComponent extends IBaseComponent {
@@ -13,14 +20,25 @@ export interface IPostgresComponent extends IBaseComponent {
 }
 
 // Report Scheduler Component Interface
+export interface TriggerReportOptions {
+  fullRefresh?: boolean  // Re-check every scene even when incremental mode is enabled
+}
+
 export interface IReportScheduler extends IBaseComponent {
-  triggerReport(): Promise<void>
+  triggerReport(options?: TriggerReportOptions): Promise<void>
+  // Whether runs upload history snapshots to the reports bucket (the 's3' publish target)
+  publishesHistory(): boolean
 }
 
 // Report Storage Component Interface
 export interface IReportStorage extends IBaseComponent {
-  getReport(): any | null
-  setReport(data: any): void
+  getReport(): ReportPayload | null
+  getEncodedReport(): EncodedReport | null
+  setReport(data: ReportPayload, encoded: EncodedReport): void
+  getExport(): ReportExport | null
+  setExport(data: ReportExport): void
+  getPlan(): PriorityPlan | null
+  setPlan(plan: PriorityPlan): void
   getLastUpdated(): Date | null
   isGenerating(): boolean
   setGenerating(generating: boolean): void
@@ -44,6 +62,7 @@ export interface AppComponents {
   postgres: IPostgresComponent
   reportScheduler: IReportScheduler
   reportStorage: IReportStorage
+  reportBucket: ObjectStorage | null  // null when the R2 credentials are not configured
 }
 
 // Global Context for HTTP handlers
@@ -130,6 +149,11 @@ export interface SetupDbRequest {
   secret: string
 }
 
+export interface ReportTriggerRequest {
+  secret: string
+  fullRefresh?: boolean
+}
+
 // Response types
 
 export interface Consumer {
@@ -179,6 +203,7 @@ export interface MonitoringStatusResponse {
   consumers: Consumer[]
   recentHistory: ProcessHistoryEntry[]
   processedLastHour: number
+  failureCategories: Record<string, number>  // Failed jobs per failure category over the last 24 hours
   message?: string
 }
 
@@ -236,3 +261,41 @@ export interface OptimizationResultsQuery {
   status?: 'success' | 'failed'
   entityType?: EntityType
 }
+
+// Report history snapshots (read from the index kept in the reports bucket)
+export interface ReportHistoryResponse {
+  snapshots: HistorySnapshot[]
+  updatedAt: string | null
+  message?: string
+}
+
+// Priority plan of the latest report (see PriorityPlanner)
+export interface PriorityPlanResponse {
+  generatedAt: string
+  candidates: number  // unoptimized and failed scenes considered
+  planned: number     // scenes in the plan before filtering
+  scenes: PlannedScene[]
+}
+
+// Diff of two report history snapshots (see diffReports)
+export interface ReportDiffResponse extends ReportDiff {
+  fromSnapshot: string  // snapshot timestamps, as listed by /api/report-history
+  toSnapshot: string
+}
+
+// Scenes the auto-enqueue policy selected after a scheduled report
+export interface AutoEnqueueEntry {
+  sceneId: string
+  reason: 'no-report' | 'failed'
+  status: 'queued' | 'failed' | 'dry-run'
+  error: string | null
+}
+
+export interface AutoEnqueueRun {
+  runId: string
+  createdAt: string
+  queued: number
+  failed: number
+  dryRun: number
+  entries: AutoEnqueueEntry[]
+}
@@ -0,0 +1,86 @@
+// Rule-based failure taxonomy shared by the generator and the server.
+// This module must stay free of Node and browser specific imports.
+
+export type FailureCategory =
+  | 'godot-crash'
+  | 'timeout'
+  | 'out-of-memory'
+  | 'missing-content'
+  | 'invalid-model'
+  | 'texture'
+  | 'network'
+  | 'unknown';
+
+// Category plus a sub-code that stays stable across wording changes of the same error
+export interface FailureClassification {
+  category: FailureCategory;
+  code: string;
+}
+
+export interface FailureInput {
+  error?: string | null;
+  errors?: unknown[];
+  godotLogs?: unknown[] | string;
+}
+
+interface FailureRule {
+  category: FailureCategory;
+  code: string;
+  pattern: RegExp;
+}
+
+// Checked in order, the first match wins. Specific rules come before broad ones,
+// e.g. a timed out download is a timeout and a missing .glb is missing content.
+const RULES: FailureRule[] = [
+  { category: 'out-of-memory', code: 'heap-exhausted', pattern: /out of memory|heap out of memory|ENOMEM|allocation failed/i },
+  { category: 'out-of-memory', code: 'killed', pattern: /SIGKILL|signal 9\b|OOM.?kill/i },
+  { category: 'godot-crash', code: 'segfault', pattern: /SIGSEGV|signal 11\b|segmentation fault/i },
+  { category: 'godot-crash', code: 'abort', pattern: /SIGABRT|signal 6\b|core dumped/i },
+  { category: 'godot-crash', code: 'crash-handler', pattern: /crash handler|program crashed|godot.*crash/i },
+  { category: 'godot-crash', code: 'exit-code', pattern: /godot.*exit(ed)?( with)?( code| status)\s*[1-9-]/i },
+  { category: 'timeout', code: 'request-timeout', pattern: /ECONNABORTED|ETIMEDOUT|timeout of \d+ms exceeded/i },
+  { category: 'timeout', code: 'job-timeout', pattern: /timed?[ -]?out|timeout|deadline exceeded/i },
+  { category: 'missing-content', code: 'file-missing', pattern: /ENOENT|no such file|file not found|missing (file|content|asset)/i },
+  { category: 'missing-content', code: 'content-not-found', pattern: /\b404\b|not found|does not exist/i },
+  { category: 'texture', code: 'texture-too-large', pattern: /texture.*(too large|exceeds|max(imum)? size)/i },
+  { category: 'texture', code: 'texture-decode', pattern: /\.(png|jpe?g|ktx2?|webp|basis|tga)\b.*(fail|error|invalid|corrupt|unsupported)|(fail|error|invalid|corrupt|unsupported).*\.(png|jpe?g|ktx2?|webp|basis|tga)\b|(texture|image).*(fail|error|invalid|corrupt|unsupported|decode)/i },
+  { category: 'invalid-model', code: 'unsupported-extension', pattern: /KHR_\w+|extension.*not supported|unsupported extension/i },
+  { category: 'invalid-model', code: 'gltf-parse', pattern: /\.(gltf|glb)\b.*(fail|error|invalid|corrupt)|(gltf|glb)\W.*(fail|error|invalid|corrupt|parse)|(fail|error|unable).*(gltf|glb)/i },
+  { category: 'network', code: 'connection', pattern: /ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|socket hang up|network error/i },
+  { category: 'network', code: 'http-5xx', pattern: /\b5\d\d\b.*(status|error|response)|(status|error|response).*\b5\d\d\b/i }
+];
+
+const UNKNOWN: FailureClassification = { category: 'unknown', code: 'unclassified' };
+
+function toMessages(values: unknown): string[] {
+  const list = Array.isArray(values) ? values : [values];
+  return list
+    .map(value => {
+      if (typeof value === 'string') return value;
+      if (typeof value === 'object' && value !== null && typeof (value as any).message === 'string') {
+        return (value as any).message as string;
+      }
+      return '';
+    })
+    .filter(message => message.length > 0);
+}
+
+function matchRules(lines: string[]): FailureClassification | null {
+  for (const rule of RULES) {
+    if (lines.some(line => rule.pattern.test(line))) {
+      return { category: rule.category, code: rule.code };
+    }
+  }
+  return null;
+}
+
+/**
+ * Classify a failure by its error messages, falling back to the Godot logs
+ * when the messages alone are inconclusive.
+ */
+export function classifyFailure(input: FailureInput): FailureClassification {
+  const messages = [...toMessages(input.error), ...toMessages(input.errors ?? [])];
+  const logs = typeof input.godotLogs === 'string' ? input.godotLogs.split('\n') : toMessages(input.godotLogs ?? []);
+
+  return matchRules(messages) ?? matchRules(logs) ?? UNKNOWN;
+}
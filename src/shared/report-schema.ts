@@ -0,0 +1,377 @@
+// Report payload schema shared by the generator, the server and the UI.
+// This module must stay free of Node and browser specific imports.
+
+import type { FailureCategory } from './failure-classifier';
+
+// Bump when the payload changes in a way older readers cannot decode.
+// Payloads without a `v` field predate versioning and count as version 1.
+export const REPORT_FORMAT_VERSION = 2;
+
+// Land format: [x, y, sceneId, hasOptimized, reportSuccess?]
+export type CompressedLand = [number, number, string, number, number?];
+
+// Redeploy regression format: [x, y, previousSceneId, redeployedAt]
+// The parcel's previous entity was optimized, its current (newer) entity is not
+export type CompressedRedeploy = [number, number, string, number | null];
+
+// Scene metrics format: [originalSize, optimizedSize, totalAssets, successfulAssets, failedAssets, processingTime]
+export type CompressedMetrics = (number | null)[];
+
+// Scene metadata format: [title, baseParcel, thumbnailHash, deployedAt]
+// Taken from the active entities the generator fetches, so the UI does not have to ask the catalyst per scene
+export type CompressedSceneMetadata = [string, string | null, string | null, number | null];
+
+// World scene format: [sceneId, title, parcels, hasOptimized, hasFailed]
+export type CompressedWorldScene = [string, string, number, number, number];
+
+// World format: [name, sceneId, title, thumbnail, parcels, hasOptimized, hasFailed?, scenes?]
+// hasOptimized is set only when every scene is optimized; scenes is present for multi-scene worlds
+export type CompressedWorld = [string, string, string, string, number, number, number?, CompressedWorldScene[]?];
+
+export type WorldOptimizationStatus = 'optimized' | 'partial' | 'not-optimized';
+
+// A world is fully optimized when all of its scenes are, partially when only some are
+export function getWorldOptimizationStatus(scenes: { hasOptimizedAssets: boolean }[]): WorldOptimizationStatus {
+  const optimized = scenes.filter(scene => scene.hasOptimizedAssets).length;
+  if (optimized > 0 && optimized === scenes.length) return 'optimized';
+  return optimized > 0 ? 'partial' : 'not-optimized';
+}
+
+// Coverage of a single optimization API version
+export interface VersionCoverage {
+  scenesWithOptimizedAssets: number;
+  optimizationPercentage: number;
+}
+
+// Scene counts when moving from one optimization API version to another
+export interface VersionMigration {
+  from: string;
+  to: string;
+  onlyInFrom: number;
+  onlyInTo: number;
+  inBoth: number;
+  inNeither: number;
+}
+
+// Per-scene version coverage: b[i] is a bitmask over vs for the scene whose color index is i
+export interface CompressedVersionCoverage {
+  p: string; // primary version
+  vs: string[]; // versions, bit n of a mask refers to vs[n]
+  b: number[];
+}
+
+export interface ReportStats {
+  totalLands: number;
+  occupiedLands: number;
+  emptyLands: number;
+  totalScenes: number;
+  averageLandsPerScene: number;
+  scenesWithOptimizedAssets: number;
+  scenesWithoutOptimizedAssets: number;
+  optimizationPercentage: number;
+  scenesWithReports: number;
+  successfulOptimizations: number;
+  failedOptimizations: number;
+  scenesWithMetrics: number;
+  totalOriginalSize: number;
+  totalOptimizedSize: number;
+  bytesSaved: number;
+  meanCompressionRatio: number;
+  // Only present when more than one optimization API version was checked
+  versionCoverage?: Record<string, VersionCoverage>;
+  migration?: VersionMigration[];
+  // Failed reports per failure category; absent in reports generated before classification
+  failureCategories?: Partial<Record<FailureCategory, number>>;
+  // Parcels (and their scenes) regressed by a redeploy; absent in reports generated before redeploy tracking
+  regressedParcels?: number;
+  regressedScenes?: number;
+}
+
+export interface WorldsStats {
+  totalWorlds: number;
+  optimizedWorlds: number;
+  partiallyOptimizedWorlds?: number; // absent in reports generated before per-scene world checks
+  notOptimizedWorlds: number;
+  failedWorlds: number;
+  optimizationPercentage: number;
+}
+
+// Wearables and emotes, which the pipeline optimizes alongside scenes
+export type CollectionEntityType = 'wearable' | 'emote';
+
+export interface EntityTypeStats {
+  total: number;
+  optimized: number;
+  notOptimized: number;
+  withReports: number;
+  failed: number;
+  optimizationPercentage: number;
+}
+
+export type EntityCoverage = Partial<Record<CollectionEntityType, EntityTypeStats>>;
+
+// Coverage of one configured region; a scene counts in every region it has a parcel in
+export interface RegionStats {
+  totalLands: number;
+  occupiedLands: number;
+  totalScenes: number;
+  scenesWithOptimizedAssets: number;
+  failedOptimizations: number;
+  optimizationPercentage: number;
+}
+
+// Region format: the shape as rectangles [minX, minY, maxX, maxY] plus single parcels [x, y]
+export interface CompressedRegion {
+  i: string; // id
+  n: string; // name
+  b: [number, number, number, number][];
+  p: [number, number][];
+  s: RegionStats;
+}
+
+export interface ReportPayload {
+  v: number; // format version
+  l: CompressedLand[]; // lands (only occupied)
+  s: ReportStats; // stats
+  c: Record<string, number>; // color indices for scenes
+  m?: Record<string, CompressedMetrics>; // per-scene metrics
+  md?: Record<string, CompressedSceneMetadata>; // per-scene catalyst metadata
+  g: number; // generated timestamp
+  w?: CompressedWorld[]; // worlds array
+  ws?: WorldsStats | null; // worlds stats
+  ov?: CompressedVersionCoverage; // per-version coverage (multi-version runs only)
+  e?: EntityCoverage; // wearable and emote coverage
+  r?: CompressedRedeploy[]; // parcels regressed by a redeploy
+  rg?: CompressedRegion[]; // per-region coverage (only when a region definition file is configured)
+}
+
+export type ReportValidationResult =
+  | { valid: true; payload: ReportPayload }
+  | { valid: false; version: number; compatible: boolean; errors: string[] };
+
+const MAX_VALIDATION_ERRORS = 10;
+
+const REQUIRED_STAT_FIELDS: (keyof ReportStats)[] = [
+  'totalLands',
+  'occupiedLands',
+  'totalScenes',
+  'scenesWithOptimizedAssets',
+  'scenesWithoutOptimizedAssets',
+  'optimizationPercentage',
+  'scenesWithReports',
+  'successfulOptimizations',
+  'failedOptimizations'
+];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFlag(value: unknown): boolean {
+  return value === 0 || value === 1;
+}
+
+// Read the format version of a payload without validating the rest of it
+export function getReportFormatVersion(value: unknown): number {
+  if (isObject(value) && typeof value.v === 'number') {
+    return value.v;
+  }
+  return 1;
+}
+
+function validateLand(land: unknown): boolean {
+  return Array.isArray(land)
+    && (land.length === 4 || land.length === 5)
+    && typeof land[0] === 'number'
+    && typeof land[1] === 'number'
+    && typeof land[2] === 'string'
+    && isFlag(land[3])
+    && (land.length === 4 || isFlag(land[4]));
+}
+
+function validateSceneMetadata(metadata: unknown): boolean {
+  return Array.isArray(metadata)
+    && metadata.length === 4
+    && typeof metadata[0] === 'string'
+    && (metadata[1] === null || typeof metadata[1] === 'string')
+    && (metadata[2] === null || typeof metadata[2] === 'string')
+    && (metadata[3] === null || typeof metadata[3] === 'number');
+}
+
+function validateRedeploy(redeploy: unknown): boolean {
+  return Array.isArray(redeploy)
+    && redeploy.length === 4
+    && typeof redeploy[0] === 'number'
+    && typeof redeploy[1] === 'number'
+    && typeof redeploy[2] === 'string'
+    && (redeploy[3] === null || typeof redeploy[3] === 'number');
+}
+
+function isCoordinateList(value: unknown, length: number): boolean {
+  return Array.isArray(value) && value.every(item =>
+    Array.isArray(item) && item.length === length && item.every(coordinate => typeof coordinate === 'number'));
+}
+
+function validateRegion(region: unknown): boolean {
+  return isObject(region)
+    && typeof region.i === 'string'
+    && typeof region.n === 'string'
+    && isCoordinateList(region.b, 4)
+    && isCoordinateList(region.p, 2)
+    && isObject(region.s)
+    && typeof region.s.totalLands === 'number'
+    && typeof region.s.totalScenes === 'number';
+}
+
+function validateWorldScene(scene: unknown): boolean {
+  return Array.isArray(scene)
+    && scene.length === 5
+    && typeof scene[0] === 'string'
+    && typeof scene[1] === 'string'
+    && typeof scene[2] === 'number'
+    && isFlag(scene[3])
+    && isFlag(scene[4]);
+}
+
+function validateWorld(world: unknown): boolean {
+  return Array.isArray(world)
+    && world.length >= 6
+    && typeof world[0] === 'string'
+    && typeof world[1] === 'string'
+    && typeof world[2] === 'string'
+    && typeof world[3] === 'string'
+    && typeof world[4] === 'number'
+    && isFlag(world[5])
+    && (world[7] === undefined || (Array.isArray(world[7]) && world[7].every(validateWorldScene)));
+}
+
+/**
+ * Check that a decoded payload matches this schema version.
+ * Returns the typed payload on success, or the list of problems found.
+ */
+export function validateReportPayload(value: unknown): ReportValidationResult {
+  const version = getReportFormatVersion(value);
+  if (version !== REPORT_FORMAT_VERSION) {
+    return {
+      valid: false,
+      version,
+      compatible: false,
+      errors: [`Unsupported report format version ${version} (expected ${REPORT_FORMAT_VERSION})`]
+    };
+  }
+
+  const errors: string[] = [];
+  const addError = (message: string) => {
+    if (errors.length < MAX_VALIDATION_ERRORS) errors.push(message);
+  };
+  const payload = value as Record<string, unknown>;
+
+  if (!Array.isArray(payload.l)) {
+    addError('l: expected an array of lands');
+  } else {
+    payload.l.forEach((land, index) => {
+      if (!validateLand(land)) addError(`l[${index}]: malformed land entry`);
+    });
+  }
+
+  if (!isObject(payload.s)) {
+    addError('s: expected a stats object');
+  } else {
+    for (const field of REQUIRED_STAT_FIELDS) {
+      if (typeof payload.s[field] !== 'number') addError(`s.${field}: expected a number`);
+    }
+  }
+
+  if (!isObject(payload.c)) {
+    addError('c: expected a scene color index map');
+  }
+
+  if (payload.m !== undefined) {
+    if (!isObject(payload.m)) {
+      addError('m: expected a scene metrics map');
+    } else {
+      for (const [sceneId, metrics] of Object.entries(payload.m)) {
+        if (!Array.isArray(metrics) || metrics.some(item => item !== null && typeof item !== 'number')) {
+          addError(`m.${sceneId}: malformed metrics entry`);
+        }
+      }
+    }
+  }
+
+  if (payload.md !== undefined) {
+    if (!isObject(payload.md)) {
+      addError('md: expected a scene metadata map');
+    } else {
+      for (const [sceneId, metadata] of Object.entries(payload.md)) {
+        if (!validateSceneMetadata(metadata)) addError(`md.${sceneId}: malformed metadata entry`);
+      }
+    }
+  }
+
+  if (typeof payload.g !== 'number') {
+    addError('g: expected a generated timestamp');
+  }
+
+  if (payload.w !== undefined) {
+    if (!Array.isArray(payload.w)) {
+      addError('w: expected an array of worlds');
+    } else {
+      payload.w.forEach((world, index) => {
+        if (!validateWorld(world)) addError(`w[${index}]: malformed world entry`);
+      });
+    }
+  }
+
+  if (payload.ws !== undefined && payload.ws !== null && !isObject(payload.ws)) {
+    addError('ws: expected a worlds stats object');
+  }
+
+  if (payload.ov !== undefined) {
+    const ov = payload.ov;
+    if (!isObject(ov) || typeof ov.p !== 'string' || !Array.isArray(ov.vs) || !Array.isArray(ov.b)) {
+      addError('ov: expected a version coverage object');
+    } else if (!ov.vs.includes(ov.p)) {
+      addError('ov.p: primary version missing from ov.vs');
+    } else if (ov.b.some(mask => typeof mask !== 'number')) {
+      addError('ov.b: expected numeric bitmasks');
+    }
+  }
+
+  if (payload.e !== undefined) {
+    if (!isObject(payload.e)) {
+      addError('e: expected an entity coverage object');
+    } else {
+      for (const [type, entityStats] of Object.entries(payload.e)) {
+        if (!isObject(entityStats) || typeof entityStats.total !== 'number' || typeof entityStats.optimized !== 'number') {
+          addError(`e.${type}: malformed entity stats`);
+        }
+      }
+    }
+  }
+
+  if (payload.r !== undefined) {
+    if (!Array.isArray(payload.r)) {
+      addError('r: expected an array of redeploy regressions');
+    } else {
+      payload.r.forEach((redeploy, index) => {
+        if (!validateRedeploy(redeploy)) addError(`r[${index}]: malformed redeploy entry`);
+      });
+    }
+  }
+
+  if (payload.rg !== undefined) {
+    if (!Array.isArray(payload.rg)) {
+      addError('rg: expected an array of regions');
+    } else {
+      payload.rg.forEach((region, index) => {
+        if (!validateRegion(region)) addError(`rg[${index}]: malformed region entry`);
+      });
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, version, compatible: true, errors };
+  }
+
+  return { valid: true, payload: value as ReportPayload };
+}
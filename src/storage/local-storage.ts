@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ObjectListPage, ObjectStorage, PutObjectOptions, StoredObjectInfo } from './object-storage';
+
+// Same page size as the S3 listing
+const PAGE_SIZE = 1000;
+
+/**
+ * Bucket stored as a directory tree, one file per object key.
+ * Content types and cache headers have no place on disk and are dropped.
+ */
+export class LocalObjectStorage implements ObjectStorage {
+  public readonly description: string;
+
+  constructor(private rootDir: string) {
+    this.description = `local directory ${rootDir}`;
+  }
+
+  private getPath(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Object key ${key} is outside of ${this.rootDir}`);
+    }
+    return filePath;
+  }
+
+  private toInfo(key: string, stats: fs.Stats): StoredObjectInfo {
+    // Size and mtime change whenever a file is rewritten, which is all callers use the ETag for
+    return { key, etag: `"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`, lastModified: stats.mtime, size: stats.size };
+  }
+
+  private async listKeys(dir: string, keyPrefix: string, keys: string[]): Promise<void> {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return;
+      throw error;
+    }
+
+    for (const entry of entries) {
+      const key = `${keyPrefix}${entry.name}`;
+      if (entry.isDirectory()) {
+        await this.listKeys(path.join(dir, entry.name), `${key}/`, keys);
+      } else if (entry.isFile()) {
+        keys.push(key);
+      }
+    }
+  }
+
+  // Keys are returned in lexicographic order and the token is the last key of the page, like S3's StartAfter
+  public async list(prefix: string, continuationToken?: string): Promise<ObjectListPage> {
+    const prefixDir = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/') + 1) : '';
+    const keys: string[] = [];
+    await this.listKeys(path.join(this.rootDir, prefixDir), prefixDir, keys);
+
+    const matching = keys
+      .filter(key => key.startsWith(prefix) && (!continuationToken || key > continuationToken))
+      .sort();
+    const page = matching.slice(0, PAGE_SIZE);
+
+    const objects: StoredObjectInfo[] = [];
+    for (const key of page) {
+      objects.push(this.toInfo(key, await fs.promises.stat(this.getPath(key))));
+    }
+    return {
+      objects,
+      continuationToken: matching.length > PAGE_SIZE ? page[page.length - 1] : undefined
+    };
+  }
+
+  public async head(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const stats = await fs.promises.stat(this.getPath(key));
+      return stats.isFile() ? this.toInfo(key, stats) : null;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  public async get(key: string): Promise<string | null> {
+    try {
+      return await fs.promises.readFile(this.getPath(key), 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT' || error.code === 'EISDIR') return null;
+      throw error;
+    }
+  }
+
+  public async put(key: string, body: string | Buffer, _options?: PutObjectOptions): Promise<void> {
+    const filePath = this.getPath(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, body);
+  }
+
+  public async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.getPath(key), { force: true });
+  }
+}
@@ -0,0 +1,93 @@
+import * as path from 'path';
+import { CONFIG } from '../config';
+import { S3ObjectStorage, S3StorageOptions } from './s3-storage';
+import { LocalObjectStorage } from './local-storage';
+
+export interface StoredObjectInfo {
+  key: string;
+  etag?: string;
+  lastModified?: Date;
+  size?: number;
+}
+
+// One page of a listing; pass continuationToken back to get the next page
+export interface ObjectListPage {
+  objects: StoredObjectInfo[];
+  continuationToken?: string;
+}
+
+export interface PutObjectOptions {
+  contentType?: string;
+  contentEncoding?: string;
+  cacheControl?: string;
+}
+
+/**
+ * The bucket operations the pipeline needs, with keys relative to the bucket root.
+ * Missing objects are reported as null instead of errors.
+ */
+export interface ObjectStorage {
+  // Human-readable location used in log lines, e.g. "S3 bucket optimized-assets"
+  readonly description: string;
+  list(prefix: string, continuationToken?: string): Promise<ObjectListPage>;
+  head(key: string): Promise<StoredObjectInfo | null>;
+  get(key: string): Promise<string | null>;
+  put(key: string, body: string | Buffer, options?: PutObjectOptions): Promise<void>;
+  // Deleting a missing object is not an error
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Create the storage for a bucket on the configured backend.
+ * The local backend keeps each bucket in a subdirectory of LOCAL_STORAGE_DIR
+ * and ignores the S3 options.
+ */
+export function createObjectStorage(bucket: string, s3Options: S3StorageOptions): ObjectStorage {
+  if (CONFIG.STORAGE_BACKEND === 'local') {
+    return new LocalObjectStorage(path.join(CONFIG.LOCAL_STORAGE_DIR, bucket));
+  }
+  return new S3ObjectStorage(bucket, s3Options);
+}
+
+// Bucket holding the optimized assets and their reports, e.g. v3/{sceneId}-mobile.zip
+export function createAssetStorage(): ObjectStorage {
+  return createObjectStorage(CONFIG.S3_BUCKET, {
+    endpoint: process.env.S3_ENDPOINT,
+    region: process.env.S3_REGION,
+    accessKeyId: process.env.S3_ACCESS_KEY_ID!,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY!
+  });
+}
+
+const REPORT_BUCKET_ENV = ['R2_ACCESS_KEY_ID', 'R2_SECRET_ACCESS_KEY', 'R2_ENDPOINT'];
+
+// Environment variables the reports bucket still needs; always empty with the local backend
+export function getMissingReportBucketEnv(): string[] {
+  return CONFIG.STORAGE_BACKEND === 'local' ? [] : REPORT_BUCKET_ENV.filter(name => !process.env[name]);
+}
+
+/**
+ * Bucket the generated report, its exports and history snapshots are uploaded to (CloudFlare R2).
+ * Returns null when the R2 credentials are not configured.
+ */
+export function createReportBucketStorage(): ObjectStorage | null {
+  if (getMissingReportBucketEnv().length > 0) {
+    return null;
+  }
+
+  return createObjectStorage(CONFIG.REPORTS_BUCKET, {
+    region: 'auto',
+    endpoint: process.env.R2_ENDPOINT,
+    accessKeyId: process.env.R2_ACCESS_KEY_ID!,
+    secretAccessKey: process.env.R2_SECRET_ACCESS_KEY!
+  });
+}
+
+// The reports bucket for commands that cannot run without it
+export function requireReportBucketStorage(): ObjectStorage {
+  const storage = createReportBucketStorage();
+  if (!storage) {
+    throw new Error(`Reports bucket not configured. Set ${getMissingReportBucketEnv().join(', ')} environment variables, or use STORAGE_BACKEND=local.`);
+  }
+  return storage;
+}
@@ -0,0 +1,103 @@
+import {
+  S3Client,
+  ListObjectsV2Command,
+  ListObjectsV2CommandOutput,
+  HeadObjectCommand,
+  HeadObjectCommandOutput,
+  GetObjectCommand,
+  GetObjectCommandOutput,
+  PutObjectCommand,
+  DeleteObjectCommand
+} from '@aws-sdk/client-s3';
+import { sendS3 } from '../api/fixtures';
+import { ObjectListPage, ObjectStorage, PutObjectOptions, StoredObjectInfo } from './object-storage';
+
+export interface S3StorageOptions {
+  endpoint?: string;
+  region?: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+// Commands go through sendS3 so fixture runs can record and replay them
+export class S3ObjectStorage implements ObjectStorage {
+  private s3Client: S3Client;
+  public readonly description: string;
+
+  constructor(private bucket: string, options: S3StorageOptions) {
+    this.s3Client = new S3Client({
+      endpoint: options.endpoint,
+      region: options.region || 'auto',
+      credentials: {
+        accessKeyId: options.accessKeyId,
+        secretAccessKey: options.secretAccessKey,
+      },
+    });
+    this.description = `S3 bucket ${bucket}`;
+  }
+
+  public async list(prefix: string, continuationToken?: string): Promise<ObjectListPage> {
+    const response = await sendS3<ListObjectsV2CommandOutput>(this.s3Client, new ListObjectsV2Command({
+      Bucket: this.bucket,
+      Prefix: prefix,
+      ContinuationToken: continuationToken,
+      MaxKeys: 1000,
+    }));
+
+    const objects: StoredObjectInfo[] = [];
+    for (const object of response.Contents || []) {
+      if (object.Key) {
+        objects.push({ key: object.Key, etag: object.ETag, lastModified: object.LastModified, size: object.Size });
+      }
+    }
+    return { objects, continuationToken: response.NextContinuationToken };
+  }
+
+  public async head(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const response = await sendS3<HeadObjectCommandOutput>(this.s3Client, new HeadObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+      }));
+      return { key, etag: response.ETag, lastModified: response.LastModified, size: response.ContentLength };
+    } catch (error: any) {
+      if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  public async get(key: string): Promise<string | null> {
+    try {
+      const response = await sendS3<GetObjectCommandOutput>(this.s3Client, new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+      }));
+      return (await response.Body?.transformToString()) ?? null;
+    } catch (error: any) {
+      if (error.name === 'NoSuchKey') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  public async put(key: string, body: string | Buffer, options: PutObjectOptions = {}): Promise<void> {
+    await sendS3(this.s3Client, new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: body,
+      ContentType: options.contentType,
+      ContentEncoding: options.contentEncoding,
+      CacheControl: options.cacheControl
+    }));
+  }
+
+  public async delete(key: string): Promise<void> {
+    await sendS3(this.s3Client, new DeleteObjectCommand({
+      Bucket: this.bucket,
+      Key: key
+    }));
+  }
+}
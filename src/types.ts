@@ -1,9 +1,29 @@
+import type { CollectionEntityType, WorldOptimizationStatus } from './shared/report-schema';
+import type { FailureClassification } from './shared/failure-classifier';
+
+// Size and asset metrics extracted from an optimization report
+export interface SceneMetrics {
+  originalSize?: number;
+  optimizedSize?: number;
+  totalAssets?: number;
+  successfulAssets?: number;
+  failedAssets?: number;
+  processingTime?: number; // milliseconds
+}
+
+// Report body formats understood by the report parser (see api/report-parser.ts)
+export type ReportFormat = 'legacy' | 'result' | 'unknown';
+
 export interface OptimizationReport {
   sceneId: string;
+  format?: ReportFormat;
   success: boolean;
   fatalError?: boolean;
   timestamp?: string;
   error?: string;
+  failure?: FailureClassification; // set on unsuccessful reports (see shared/failure-classifier.ts)
+  metrics?: SceneMetrics;
+  etag?: string; // ETag of the report object when read from the bucket
   details?: {
     originalSize?: number;
     optimizedSize?: number;
@@ -16,8 +36,57 @@ export interface OptimizationReport {
 export interface Scene {
   id: string;
   pointers: string[];
+  timestamp?: number; // deployment time of the entity (ms), as returned by /entities/active
+  content?: { file: string; hash: string }[];
+  metadata?: {
+    display?: { title?: string; navmapThumbnail?: string };
+    scene?: { base?: string };
+  };
   hasOptimizedAssets?: boolean;
   optimizationReport?: OptimizationReport;
+  optimizedVersions?: string[]; // API versions with optimized assets (multi-version runs only)
+}
+
+// An active wearable or emote; checked for optimization the same way as scenes
+export interface CollectionItem extends Scene {
+  type: CollectionEntityType;
+  collectionId: string;
+}
+
+// Per-scene state persisted between runs (see SceneStateStore)
+export type ReportStatus = 'success' | 'failed' | 'none';
+
+export interface SceneState {
+  entityId: string;
+  optimized: boolean;
+  reportStatus: ReportStatus;
+  report?: Omit<OptimizationReport, 'sceneId' | 'details'>;
+  failureCount?: number; // distinct failed reports seen for the entity (absent in state written before counting)
+  checkedAt: string;
+}
+
+// Progress of a resumable run that checkOptimizationStatus reads from and writes to (see RunCheckpoint)
+export interface OptimizationCheckpoint {
+  getOptimizedSceneIds(): string[] | undefined;
+  setOptimizedSceneIds(sceneIds: string[]): void;
+  // undefined when the report was not fetched yet, null when the scene has no report
+  getReport(sceneId: string): OptimizationReport | null | undefined;
+  recordReport(sceneId: string, report: OptimizationReport | null): void;
+  flush(force?: boolean): void;
+}
+
+// Content server consistency sampling (see DecentralandAPI.fetchWorld)
+export interface ConsistencyDisagreement {
+  pointer: string;
+  primary: { server: string; entityId: string | null };
+  secondary: { server: string; entityId: string | null };
+}
+
+export interface ConsistencyReport {
+  sampledBatches: number;
+  sampledPointers: number;
+  disagreementCount: number;
+  disagreements: ConsistencyDisagreement[];
 }
 
 export interface ApiResponse {
@@ -30,6 +99,15 @@ export interface LandData {
   sceneId: string | null;
   hasOptimizedAssets?: boolean;
   optimizationReport?: OptimizationReport;
+  redeploy?: RedeployRegression;
+}
+
+// A parcel whose previous entity was optimized but whose newer, redeployed entity is not
+export interface RedeployRegression {
+  pointer: string;
+  sceneId: string;
+  previousSceneId: string;
+  redeployedAt?: number; // deployment time of the current entity (ms)
 }
 
 export interface WorldData {
@@ -52,6 +130,18 @@ export interface World {
   scenes: WorldScene[];
 }
 
+// Optimization status of one scene of a world
+export interface WorldSceneOptimization {
+  sceneId: string;
+  title: string;
+  parcels: number;
+  hasOptimizedAssets: boolean;
+  hasFailed: boolean;
+  optimizationReport?: OptimizationReport;
+}
+
+// sceneId, title and thumbnail describe the world's first scene;
+// hasOptimizedAssets is only true when every scene is optimized
 export interface WorldWithOptimization {
   name: string;
   sceneId: string;
@@ -60,13 +150,16 @@ export interface WorldWithOptimization {
   parcels: number;
   hasOptimizedAssets: boolean;
   hasFailed?: boolean;
+  status: WorldOptimizationStatus;
+  scenes: WorldSceneOptimization[];
   optimizationReport?: OptimizationReport;
 }
 
-export interface WorldsStats {
-  totalWorlds: number;
-  optimizedWorlds: number;
-  notOptimizedWorlds: number;
-  failedWorlds: number;
-  optimizationPercentage: number;
-}
\ No newline at end of file
+export type {
+  CollectionEntityType,
+  EntityCoverage,
+  EntityTypeStats,
+  WorldsStats,
+  WorldOptimizationStatus
+} from './shared/report-schema';
+export type { FailureCategory, FailureClassification } from './shared/failure-classifier';
@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyFailure } from '../src/shared/failure-classifier';
+
+function classify(error: string): string {
+  const { category, code } = classifyFailure({ error });
+  return `${category}/${code}`;
+}
+
+test('classifies each category by its typical message', () => {
+  assert.equal(classify('FATAL ERROR: Reached heap limit Allocation failed'), 'out-of-memory/heap-exhausted');
+  assert.equal(classify('Process exited after SIGKILL'), 'out-of-memory/killed');
+  assert.equal(classify('Godot received signal 11'), 'godot-crash/segfault');
+  assert.equal(classify('Godot exited with code 134'), 'godot-crash/exit-code');
+  assert.equal(classify('timeout of 30000ms exceeded'), 'timeout/request-timeout');
+  assert.equal(classify('Job timed out after 1800 seconds'), 'timeout/job-timeout');
+  assert.equal(classify('ENOENT: no such file or directory'), 'missing-content/file-missing');
+  assert.equal(classify('Content file does not exist'), 'missing-content/content-not-found');
+  assert.equal(classify('Texture exceeds maximum size 4096'), 'texture/texture-too-large');
+  assert.equal(classify('KHR_materials_pbrSpecularGlossiness is required'), 'invalid-model/unsupported-extension');
+  assert.equal(classify('Failed to parse glTF JSON'), 'invalid-model/gltf-parse');
+  assert.equal(classify('socket hang up'), 'network/connection');
+  assert.equal(classify('Request failed with status code 502'), 'network/http-5xx');
+  assert.equal(classify('Something else went wrong'), 'unknown/unclassified');
+});
+
+test('specific rules win over broad ones that also match', () => {
+  // A crash caused by running out of memory is an out-of-memory failure
+  assert.equal(classify('SIGSEGV after out of memory'), 'out-of-memory/heap-exhausted');
+  // A timed out download of a model is a timeout, not a missing or invalid model
+  assert.equal(classify('ETIMEDOUT downloading models/tree.glb'), 'timeout/request-timeout');
+  // A model that is not there is missing content, even though its extension names a model
+  assert.equal(classify('models/tree.glb not found'), 'missing-content/content-not-found');
+  // A broken texture inside a model is a texture failure
+  assert.equal(classify('Failed to decode image textures/wall.png in scene.glb'), 'texture/texture-decode');
+});
+
+test('rule order wins over message order', () => {
+  const { category } = classifyFailure({ errors: ['Godot received signal 11', 'heap out of memory'] });
+  assert.equal(category, 'out-of-memory');
+});
+
+test('falls back to the Godot logs only when the messages are inconclusive', () => {
+  assert.deepEqual(
+    classifyFailure({ error: 'Optimization failed', godotLogs: ['Loading scene', 'Program crashed with signal 11'] }),
+    { category: 'godot-crash', code: 'segfault' }
+  );
+  assert.deepEqual(
+    classifyFailure({ error: 'Job timed out', godotLogs: 'Loading scene\nProgram crashed with signal 11' }),
+    { category: 'timeout', code: 'job-timeout' }
+  );
+});
+
+test('reads error objects and skips values without a message', () => {
+  assert.deepEqual(
+    classifyFailure({ errors: [{ code: 7 }, { message: 'ECONNREFUSED 10.0.0.1:443' }, 42] }),
+    { category: 'network', code: 'connection' }
+  );
+});
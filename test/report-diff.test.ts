@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffReports } from '../src/report-diff';
+import { CompressedLand, CompressedWorld, ReportPayload } from '../src/shared/report-schema';
+
+function payload(generatedAt: number, lands: CompressedLand[], worlds: CompressedWorld[] = []): ReportPayload {
+  return {
+    v: 2,
+    l: lands,
+    s: { totalScenes: new Set(lands.map(land => land[2])).size, optimizationPercentage: 0 },
+    c: {},
+    g: generatedAt,
+    w: worlds
+  } as unknown as ReportPayload;
+}
+
+function statuses(scenes: { sceneId: string; from: string | null; to: string | null }[]): string[] {
+  return scenes.map(scene => `${scene.sceneId}: ${scene.from} -> ${scene.to}`);
+}
+
+test('sorts scenes into optimized, regressed, added and removed by their failed or optimized status', () => {
+  const from = payload(1, [
+    [0, 0, 'pending', 0],
+    [1, 0, 'failing', 0, 0],
+    [2, 0, 'big', 1, 1],
+    [2, 1, 'big', 1, 1],
+    [3, 0, 'small', 1, 1],
+    [4, 0, 'still-failing', 0, 0],
+    [5, 0, 'gone', 1]
+  ]);
+  const to = payload(2, [
+    [0, 0, 'pending', 1, 1],
+    [1, 0, 'failing', 1, 1],
+    [2, 0, 'big', 0, 0],
+    [2, 1, 'big', 0, 0],
+    [3, 0, 'small', 0, 1],
+    [4, 0, 'still-failing', 0, 0],
+    [6, 0, 'new', 0, 0]
+  ]);
+
+  const diff = diffReports(from, to);
+
+  assert.deepEqual(statuses(diff.optimized), ['failing: failed -> optimized', 'pending: not-optimized -> optimized']);
+  // Biggest scenes lead the list
+  assert.deepEqual(statuses(diff.regressed), ['big: optimized -> failed', 'small: optimized -> not-optimized']);
+  assert.deepEqual(statuses(diff.added), ['new: null -> failed']);
+  assert.deepEqual(statuses(diff.removed), ['gone: optimized -> null']);
+  assert.equal(diff.regressed[0].parcels, 2);
+  assert.equal(diff.regressed[0].baseParcel, '2,0');
+  assert.deepEqual([diff.from.totalScenes, diff.to.totalScenes], [6, 6]);
+});
+
+test('takes scene titles and base parcels from the metadata of either report', () => {
+  const from = payload(1, [[0, 0, 'scene', 0]]);
+  const to = { ...payload(2, [[0, 0, 'scene', 1], [1, 0, 'scene', 1]]), md: { scene: ['Plaza', '1,0', '', 0] } } as ReportPayload;
+
+  const [scene] = diffReports(from, to).optimized;
+  assert.equal(scene.title, 'Plaza');
+  assert.equal(scene.baseParcel, '1,0');
+});
+
+test('reports worlds whose status changed, with failed for unoptimized worlds with a failed report', () => {
+  const from = payload(1, [], [
+    ['partial.dcl.eth', 'a', 'Partial', '', 2, 1, 0, [['a', 'A', 1, 1, 0], ['b', 'B', 1, 0, 0]]],
+    ['flagged.dcl.eth', 'c', 'Flagged', '', 1, 0, 0],
+    ['scene-failed.dcl.eth', 'd', 'Scene Failed', '', 2, 0, 0, [['d', 'D', 1, 0, 0], ['e', 'E', 1, 0, 0]]],
+    ['mixed.dcl.eth', 'f', 'Mixed', '', 2, 1, 0, [['f', 'F', 1, 1, 0], ['g', 'G', 1, 0, 0]]],
+    ['still-failed.dcl.eth', 'h', 'Still Failed', '', 1, 0, 1],
+    ['gone.dcl.eth', 'i', 'Gone', '', 1, 1, 0]
+  ]);
+  const to = payload(2, [], [
+    ['partial.dcl.eth', 'a', 'Partial', '', 2, 1, 0, [['a', 'A', 1, 1, 0], ['b', 'B', 1, 1, 0]]],
+    ['flagged.dcl.eth', 'c', 'Flagged', '', 1, 0, 1],
+    ['scene-failed.dcl.eth', 'd', 'Scene Failed', '', 2, 0, 0, [['d', 'D', 1, 0, 0], ['e', 'E', 1, 0, 1]]],
+    // A partially optimized world stays partial even when one of its scenes failed
+    ['mixed.dcl.eth', 'f', 'Mixed', '', 2, 1, 1, [['f', 'F', 1, 1, 0], ['g', 'G', 1, 0, 1]]],
+    ['still-failed.dcl.eth', 'h', 'Still Failed', '', 1, 0, 1],
+    ['new.dcl.eth', 'j', 'New', '', 1, 0, 0]
+  ]);
+
+  const worlds = diffReports(from, to).worlds.map(world => `${world.name}: ${world.from} -> ${world.to}`);
+
+  assert.deepEqual(worlds, [
+    'flagged.dcl.eth: not-optimized -> failed',
+    'gone.dcl.eth: optimized -> null',
+    'new.dcl.eth: null -> not-optimized',
+    'partial.dcl.eth: partial -> optimized',
+    'scene-failed.dcl.eth: not-optimized -> failed'
+  ]);
+});
@@ -0,0 +1,86 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  HistorySnapshot,
+  ReportHistory,
+  RetentionPolicy,
+  getSnapshotKey,
+  parseSnapshotKey,
+  selectSnapshotsToPrune
+} from '../src/report-history';
+import { ReportPayload } from '../src/shared/report-schema';
+import { LocalObjectStorage } from '../src/storage/local-storage';
+
+const POLICY: RetentionPolicy = { keepAllDays: 7, keepDailyDays: 90, keepWeeklyDays: 0 };
+const NOW = new Date('2024-06-30T12:00:00.000Z');
+
+function snapshot(timestamp: string): HistorySnapshot {
+  return { key: getSnapshotKey(timestamp), url: '', timestamp, formatVersion: 2, stats: null };
+}
+
+function prune(timestamps: string[], policy: RetentionPolicy = POLICY): string[] {
+  return selectSnapshotsToPrune(timestamps.map(snapshot), policy, NOW).map(pruned => pruned.timestamp);
+}
+
+test('snapshot keys round-trip to their timestamp', () => {
+  const key = getSnapshotKey('2024-06-29T05:04:03.210Z');
+  assert.equal(key, 'optimization-pipeline/history/2024-06-29/2024-06-29T05-04-03-210Z.json');
+  assert.equal(parseSnapshotKey(key), '2024-06-29T05:04:03.210Z');
+  assert.equal(parseSnapshotKey('optimization-pipeline/history/2024-06-29/notes.txt'), null);
+});
+
+test('keeps every snapshot of the last keepAllDays', () => {
+  assert.deepEqual(prune(['2024-06-29T01:00:00.000Z', '2024-06-29T05:00:00.000Z', '2024-06-24T01:00:00.000Z']), []);
+});
+
+test('keeps the oldest snapshot of each day in the daily tier', () => {
+  assert.deepEqual(prune([
+    '2024-06-10T13:00:00.000Z',
+    '2024-06-10T01:00:00.000Z',
+    '2024-06-10T20:00:00.000Z',
+    '2024-06-11T09:00:00.000Z'
+  ]), ['2024-06-10T13:00:00.000Z', '2024-06-10T20:00:00.000Z']);
+});
+
+test('keeps the oldest snapshot of each Monday-based week in the weekly tier', () => {
+  assert.deepEqual(prune([
+    '2024-02-27T00:00:00.000Z', // Tuesday
+    '2024-02-29T00:00:00.000Z',
+    '2024-03-03T00:00:00.000Z', // Sunday of the same week
+    '2024-03-04T00:00:00.000Z'  // Monday of the next week
+  ]), ['2024-02-29T00:00:00.000Z', '2024-03-03T00:00:00.000Z']);
+});
+
+test('drops weekly snapshots older than keepWeeklyDays when it is set', () => {
+  const policy = { ...POLICY, keepWeeklyDays: 365 };
+  assert.deepEqual(prune(['2023-01-02T00:00:00.000Z', '2024-02-27T00:00:00.000Z'], policy), ['2023-01-02T00:00:00.000Z']);
+});
+
+test('adding a snapshot deletes the pruned ones and indexes the rest newest first', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'report-history-'));
+  try {
+    const storage = new LocalObjectStorage(dir);
+    const history = new ReportHistory(storage, 'https://reports.example');
+    const report = { v: 2, s: { totalScenes: 10, optimizationPercentage: 50 } } as unknown as ReportPayload;
+
+    for (const timestamp of ['2024-06-10T01:00:00.000Z', '2024-06-10T13:00:00.000Z']) {
+      await storage.put(getSnapshotKey(timestamp), JSON.stringify(report));
+      await history.addSnapshot(getSnapshotKey(timestamp), timestamp, report, POLICY);
+    }
+
+    const key = getSnapshotKey(NOW.toISOString());
+    await storage.put(key, JSON.stringify(report));
+    const { index, pruned } = await history.addSnapshot(key, NOW.toISOString(), report, POLICY);
+
+    assert.deepEqual(pruned.map(snapshot => snapshot.timestamp), ['2024-06-10T13:00:00.000Z']);
+    assert.deepEqual(index.snapshots.map(snapshot => snapshot.timestamp), [NOW.toISOString(), '2024-06-10T01:00:00.000Z']);
+    assert.equal(index.snapshots[0].url, `https://reports.example/${key}`);
+    assert.equal(await storage.get(getSnapshotKey('2024-06-10T13:00:00.000Z')), null);
+    assert.deepEqual((await history.loadIndex())?.snapshots.map(snapshot => snapshot.key), index.snapshots.map(snapshot => snapshot.key));
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { detectReportFormat, parseOptimizationReport } from '../src/api/report-parser';
+
+// Report bodies captured from the optimized assets bucket, one per known shape
+function loadReport(name: string): unknown {
+  return JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'report-samples', `${name}.json`), 'utf-8'));
+}
+
+test('detects the format of each captured report', () => {
+  assert.equal(detectReportFormat(loadReport('result')), 'result');
+  assert.equal(detectReportFormat(loadReport('legacy')), 'legacy');
+  assert.equal(detectReportFormat(loadReport('unknown')), 'unknown');
+});
+
+test('parses a result report', () => {
+  const report = parseOptimizationReport('bafkreiresult', loadReport('result'));
+
+  assert.ok(report);
+  assert.equal(report.format, 'result');
+  assert.equal(report.success, false);
+  assert.equal(report.fatalError, false);
+  assert.equal(report.timestamp, '2024-11-12T09:43:19.640Z');
+  assert.equal(report.error, 'Failed to load models/tower.glb: invalid glTF header');
+  assert.deepEqual(report.failure, { category: 'invalid-model', code: 'gltf-parse' });
+  assert.deepEqual(report.metrics, {
+    originalSize: 48213504,
+    optimizedSize: 0,
+    totalAssets: 37,
+    successfulAssets: 35,
+    failedAssets: 2,
+    processingTime: 132528
+  });
+});
+
+test('parses a legacy report', () => {
+  const report = parseOptimizationReport('bafkreilegacy', loadReport('legacy'));
+
+  assert.ok(report);
+  assert.equal(report.format, 'legacy');
+  assert.equal(report.success, true);
+  assert.equal(report.timestamp, '2024-03-02T18:22:51.004Z');
+  assert.equal(report.error, undefined);
+  assert.equal(report.failure, undefined);
+  assert.deepEqual(report.metrics, {
+    originalSize: 15728640,
+    optimizedSize: 6291456,
+    totalAssets: undefined,
+    successfulAssets: undefined,
+    failedAssets: undefined,
+    processingTime: 84210
+  });
+});
+
+test('keeps a report of unknown shape as unsuccessful', () => {
+  const report = parseOptimizationReport('bafkreiunknown', loadReport('unknown'));
+
+  assert.ok(report);
+  assert.equal(report.format, 'unknown');
+  assert.equal(report.success, false);
+  assert.equal(report.error, 'Job timed out after 1800 seconds');
+  assert.deepEqual(report.failure, { category: 'timeout', code: 'job-timeout' });
+  assert.equal(report.metrics, undefined);
+});
+
+test('rejects bodies that are not JSON objects', () => {
+  assert.equal(detectReportFormat([]), 'unknown');
+  assert.equal(parseOptimizationReport('bafkreiarray', []), null);
+  assert.equal(parseOptimizationReport('bafkreistring', 'not found'), null);
+});
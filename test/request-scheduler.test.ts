@@ -0,0 +1,96 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RequestScheduler, acceptUnlessThrottled } from '../src/api/request-scheduler';
+
+const HOST = 'content.example';
+
+// An infinite slowdown factor keeps near-zero test latencies from counting as slow responses
+function createScheduler(maxConcurrency: number): RequestScheduler {
+  return new RequestScheduler({ maxConcurrency, ratePerSecond: 1000, slowdownFactor: Infinity });
+}
+
+function httpError(status: number, headers: Record<string, string> = {}): Error {
+  return Object.assign(new Error(`Request failed with status code ${status}`), { response: { status, headers } });
+}
+
+async function fail(scheduler: RequestScheduler, error: Error): Promise<void> {
+  await assert.rejects(scheduler.schedule(HOST, () => Promise.reject(error)));
+}
+
+async function succeed(scheduler: RequestScheduler, times: number): Promise<void> {
+  for (let i = 0; i < times; i++) {
+    await scheduler.schedule(HOST, () => Promise.resolve());
+  }
+}
+
+function getStats(scheduler: RequestScheduler) {
+  return scheduler.getStats().find(stats => stats.host === HOST)!;
+}
+
+test('halves the concurrency limit on throttling and grows it back one step per healthy window', async () => {
+  const scheduler = createScheduler(8);
+
+  await fail(scheduler, httpError(429));
+  await fail(scheduler, httpError(503));
+  assert.equal(getStats(scheduler).concurrency, 2);
+  assert.equal(getStats(scheduler).throttled, 2);
+
+  // Responses before the tenth only establish the latency baseline
+  await succeed(scheduler, 10);
+  assert.equal(getStats(scheduler).concurrency, 2);
+
+  await succeed(scheduler, 2);
+  assert.equal(getStats(scheduler).concurrency, 3);
+  await succeed(scheduler, 3);
+  assert.equal(getStats(scheduler).concurrency, 4);
+});
+
+test('never drops below one concurrent request or grows past the maximum', async () => {
+  const scheduler = createScheduler(2);
+
+  await fail(scheduler, httpError(429));
+  await fail(scheduler, httpError(429));
+  assert.equal(getStats(scheduler).concurrency, 1);
+
+  await succeed(scheduler, 20);
+  assert.equal(getStats(scheduler).concurrency, 2);
+});
+
+test('client errors count as errors without backing off', async () => {
+  const scheduler = createScheduler(4);
+
+  await fail(scheduler, httpError(404));
+  const stats = getStats(scheduler);
+  assert.equal(stats.errors, 1);
+  assert.equal(stats.throttled, 0);
+  assert.equal(stats.concurrency, 4);
+
+  const startTime = Date.now();
+  await succeed(scheduler, 1);
+  assert.ok(Date.now() - startTime < 250);
+});
+
+test('waits for the backoff before the next request', async () => {
+  const scheduler = createScheduler(4);
+
+  await fail(scheduler, httpError(429));
+  const startTime = Date.now();
+  await succeed(scheduler, 1);
+  assert.ok(Date.now() - startTime >= 450, 'expected the base backoff of 500ms');
+});
+
+test('honours a Retry-After longer than the backoff', async () => {
+  const scheduler = createScheduler(4);
+
+  await fail(scheduler, httpError(429, { 'retry-after': '1' }));
+  const startTime = Date.now();
+  await succeed(scheduler, 1);
+  assert.ok(Date.now() - startTime >= 950, 'expected the one second Retry-After');
+});
+
+test('only 429 rejects among the statuses callers handle themselves', () => {
+  assert.equal(acceptUnlessThrottled(200), true);
+  assert.equal(acceptUnlessThrottled(404), true);
+  assert.equal(acceptUnlessThrottled(429), false);
+  assert.equal(acceptUnlessThrottled(503), false);
+});
@@ -1,4 +1,4 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import type { TabName, MapView, LandData } from '../types';
 import { useReportData } from '../hooks/useReportData';
 import { Header } from './Header';
@@ -15,6 +15,11 @@ import { WorldsList } from './WorldsList';
 import { PipelineMonitor } from './PipelineMonitor';
 import { RankingView } from './RankingView';
 import { FailingView } from './FailingView';
+import { PlanView } from './PlanView';
+import { VersionCoverage } from './VersionCoverage';
+import { CoverageSummary } from './CoverageSummary';
+import { RegionBreakdown } from './RegionBreakdown';
+import { ReportDiffPanel } from './ReportDiffPanel';
 
 const TAB_HASH_MAP: Record<string, TabName> = {
   '#overview': 'overview',
@@ -22,10 +27,11 @@ const TAB_HASH_MAP: Record<string, TabName> = {
   '#pipeline': 'pipeline',
   '#ranking': 'ranking',
   '#failing': 'failing',
+  '#plan': 'plan',
   '#history': 'history',
 };
 
-const VALID_TABS: TabName[] = ['overview', 'worlds', 'pipeline', 'ranking', 'failing', 'history'];
+const VALID_TABS: TabName[] = ['overview', 'worlds', 'pipeline', 'ranking', 'failing', 'plan', 'history'];
 
 function getTabFromHash(): TabName {
   const hash = window.location.hash;
@@ -33,11 +39,45 @@ function getTabFromHash(): TabName {
 }
 
 export default function App() {
-  const { data, isLoading, error, generatingStatus } = useReportData();
+  const { data, isLoading, error, incompatible, generatingStatus } = useReportData();
   const [activeTab, setActiveTab] = useState<TabName>(getTabFromHash);
   const [mapView, setMapView] = useState<MapView>('optimization');
   const [hoveredLand, setHoveredLand] = useState<{ land: LandData; x: number; y: number } | null>(null);
   const [selectedSceneId, setSelectedSceneId] = useState<string | null>(null);
+  const [selectedVersion, setSelectedVersion] = useState<string | null>(null);
+
+  const versions = data?.versions || null;
+  const activeVersion = versions && selectedVersion && versions.list.includes(selectedVersion)
+    ? selectedVersion
+    : versions?.primary || null;
+
+  // Lands as seen by the selected API version; reports only exist for the primary one
+  const versionLands = useMemo(() => {
+    if (!data || !versions || activeVersion === versions.primary) return data?.lands || [];
+    const bit = 1 << versions.list.indexOf(activeVersion!);
+    return data.lands.map((land) => ({
+      ...land,
+      hasOptimizedAssets: ((land.versionMask ?? 0) & bit) !== 0,
+      optimizationReport: undefined,
+    }));
+  }, [data, versions, activeVersion]);
+
+  // Migration view compares the selected version (or the first non-primary one) against the primary
+  const migration = useMemo(() => {
+    if (!versions || versions.list.length < 2) return undefined;
+    const from = activeVersion !== versions.primary
+      ? activeVersion!
+      : versions.list.find((version) => version !== versions.primary)!;
+    return {
+      from,
+      fromBit: versions.list.indexOf(from),
+      toBit: versions.list.indexOf(versions.primary),
+    };
+  }, [versions, activeVersion]);
+
+  const optimizationPercentage = data && activeVersion && data.stats.versionCoverage?.[activeVersion]
+    ? data.stats.versionCoverage[activeVersion].optimizationPercentage
+    : data?.stats.optimizationPercentage || 0;
 
   // Update URL hash when tab changes
   const handleTabChange = useCallback((tab: TabName) => {
@@ -105,6 +145,14 @@ export default function App() {
       );
     }
 
+    if (incompatible) {
+      return (
+        <div className="error-message">
+          Incompatible report format: {error}
+        </div>
+      );
+    }
+
     if (error) {
       return (
         <div className="error-message">
@@ -127,20 +175,38 @@ export default function App() {
             renderReportLoadingStatus()
           ) : data && (
             <>
-              <ProgressBar percentage={data.stats.optimizationPercentage} />
+              <ProgressBar percentage={optimizationPercentage} />
+              <CoverageSummary
+                stats={data.stats}
+                worldsStats={data.worldsStats}
+                entityCoverage={data.entityCoverage}
+              />
               <StatsGrid stats={data.stats} />
 
+              {versions && activeVersion && (
+                <VersionCoverage
+                  versions={versions}
+                  stats={data.stats}
+                  selectedVersion={activeVersion}
+                  onVersionChange={setSelectedVersion}
+                />
+              )}
+
+              {data.regions.length > 0 && <RegionBreakdown regions={data.regions} />}
+
               <div className="map-section">
                 <h2 className="map-title">Interactive World Map</h2>
-                <ViewToggle currentView={mapView} onViewChange={setMapView} />
+                <ViewToggle currentView={mapView} onViewChange={setMapView} showMigration={!!migration} />
                 <WorldMap
-                  lands={data.lands}
+                  lands={versionLands}
                   sceneColorIndices={data.sceneColorIndices}
                   view={mapView}
+                  migration={migration}
+                  regions={data.regions}
                   onLandClick={handleLandClick}
                   onLandHover={handleLandHover}
                 />
-                <Legend view={mapView} />
+                <Legend view={mapView} compareVersion={migration?.from} primaryVersion={versions?.primary} />
               </div>
             </>
           )}
@@ -179,8 +245,15 @@ export default function App() {
         </div>
       )}
 
+      {activeTab === 'plan' && (
+        <div className="tab-content active">
+          <PlanView />
+        </div>
+      )}
+
       {activeTab === 'history' && (
         <div className="tab-content active">
+          <ReportDiffPanel />
           <HistoryView />
         </div>
       )}
@@ -0,0 +1,70 @@
+import type { EntityCoverage, Stats, WorldsStats } from '../types';
+import { formatNumber, formatPercentage } from '../utils/formatters';
+
+interface CoverageSummaryProps {
+  stats: Stats;
+  worldsStats: WorldsStats | null;
+  entityCoverage: EntityCoverage | null;
+}
+
+interface CoverageItem {
+  label: string;
+  optimized: number;
+  total: number;
+  percentage: number;
+}
+
+export function CoverageSummary({ stats, worldsStats, entityCoverage }: CoverageSummaryProps) {
+  const items: CoverageItem[] = [
+    {
+      label: 'Genesis City Scenes',
+      optimized: stats.scenesWithOptimizedAssets,
+      total: stats.totalScenes,
+      percentage: stats.optimizationPercentage,
+    },
+  ];
+
+  if (worldsStats) {
+    items.push({
+      label: 'Worlds',
+      optimized: worldsStats.optimizedWorlds,
+      total: worldsStats.totalWorlds,
+      percentage: worldsStats.optimizationPercentage,
+    });
+  }
+
+  if (entityCoverage?.wearable) {
+    items.push({
+      label: 'Wearables',
+      optimized: entityCoverage.wearable.optimized,
+      total: entityCoverage.wearable.total,
+      percentage: entityCoverage.wearable.optimizationPercentage,
+    });
+  }
+
+  if (entityCoverage?.emote) {
+    items.push({
+      label: 'Emotes',
+      optimized: entityCoverage.emote.optimized,
+      total: entityCoverage.emote.total,
+      percentage: entityCoverage.emote.optimizationPercentage,
+    });
+  }
+
+  // Nothing to compare against when only scenes were measured
+  if (items.length < 2) return null;
+
+  return (
+    <div className="coverage-summary">
+      {items.map((item) => (
+        <div key={item.label} className="stat-card">
+          <div className="stat-value">{formatPercentage(item.percentage)}</div>
+          <div className="stat-label">{item.label}</div>
+          <div className="coverage-detail">
+            {formatNumber(item.optimized)} / {formatNumber(item.total)} optimized
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import type { WorldWithOptimization, LandData, FailedJobEntry, GeneratingStatus
 import { ReportModal } from './ReportModal';
 import { API_BASE_URL } from '../config';
 import { EntityInfo, getCachedMetadata, getEntityTypeInfo } from './shared/EntityInfo';
+import { EntityToQueue, PriorityQueueModal } from './shared/PriorityQueueModal';
 
 interface FailingViewProps {
   worlds: WorldWithOptimization[];
@@ -32,6 +33,11 @@ function getFailedScenes(lands: LandData[]): { sceneId: string; positions: strin
   }));
 }
 
+// First failing scene of a world (worlds can have several scenes)
+function getFailedSceneId(world: WorldWithOptimization): string {
+  return world.scenes.find((scene) => scene.hasFailed)?.sceneId || world.sceneId;
+}
+
 interface FailedSceneCardProps {
   sceneId: string;
   positions: string[];
@@ -111,7 +117,7 @@ function FailedWorldCard({ world, onViewReport }: FailedWorldCardProps) {
       </div>
 
       <div className="history-scene-id">
-        <code>{world.sceneId}</code>
+        <code>{getFailedSceneId(world)}</code>
       </div>
 
       <div className="history-card-footer">
@@ -156,6 +162,13 @@ function FailedJobCard({ job, onViewReport }: FailedJobCardProps) {
         <code>{job.sceneId}</code>
       </div>
 
+      {job.failureCategory && (
+        <div className="failing-category" title={job.failureCode || undefined}>
+          {job.failureCategory}
+          {job.failureCode && <span className="failing-category-code">{job.failureCode}</span>}
+        </div>
+      )}
+
       {job.errorMessage && (
         <div className="failing-error">
           {job.errorMessage.length > 100
@@ -188,17 +201,6 @@ function formatTimeAgo(timestamp: string): string {
   return `${diffDay}d ago`;
 }
 
-interface BulkQueueResult {
-  success: boolean;
-  total: number;
-  queued: number;
-  failed: number;
-  results: {
-    success: string[];
-    failed: { sceneId: string; error: string }[];
-  };
-}
-
 type EntityType = 'scene' | 'wearable' | 'emote';
 
 interface SelectedEntity {
@@ -211,15 +213,12 @@ export function FailingView({ worlds, lands, generatingStatus }: FailingViewProp
   const [filter, setFilter] = useState<'all' | 'scenes' | 'worlds' | 'wearables' | 'emotes'>('all');
   const [searchQuery, setSearchQuery] = useState('');
   const [showPasswordModal, setShowPasswordModal] = useState(false);
-  const [password, setPassword] = useState('');
-  const [isQueuing, setIsQueuing] = useState(false);
-  const [queueResult, setQueueResult] = useState<BulkQueueResult | null>(null);
-  const [queueError, setQueueError] = useState<string | null>(null);
   const [copySuccess, setCopySuccess] = useState(false);
 
   // Data source toggle state
   const [dataSource, setDataSource] = useState<DataSource>('database');
   const [failedJobs, setFailedJobs] = useState<FailedJobEntry[]>([]);
+  const [failureCategories, setFailureCategories] = useState<Record<string, number>>({});
   const [isLoadingJobs, setIsLoadingJobs] = useState(false);
   const [jobsError, setJobsError] = useState<string | null>(null);
 
@@ -250,6 +249,7 @@ export function FailingView({ worlds, lands, generatingStatus }: FailingViewProp
       }
       const data = await response.json();
       setFailedJobs(data.failed || []);
+      setFailureCategories(data.byCategory || {});
     } catch (err) {
       setJobsError(err instanceof Error ? err.message : 'Unknown error');
     } finally {
@@ -291,6 +291,7 @@ export function FailingView({ worlds, lands, generatingStatus }: FailingViewProp
     if (!searchQuery) return true;
     const query = searchQuery.toLowerCase();
     if (job.sceneId.toLowerCase().includes(query)) return true;
+    if (job.failureCategory?.includes(query) || job.failureCode?.includes(query)) return true;
     return false;
   });
 
@@ -299,11 +300,6 @@ export function FailingView({ worlds, lands, generatingStatus }: FailingViewProp
   const filteredDbEmotes = filteredDbJobs.filter(j => j.entityType === 'emote');
 
   // Get entities with their types based on current filter and data source
-  interface EntityToQueue {
-    sceneId: string;
-    entityType: EntityType;
-  }
-
   const getEntitiesToQueue = (): EntityToQueue[] => {
     const entities: EntityToQueue[] = [];
 
@@ -312,7 +308,10 @@ export function FailingView({ worlds, lands, generatingStatus }: FailingViewProp
         entities.push(...filteredScenes.map(s => ({ sceneId: s.sceneId, entityType: 'scene' as EntityType })));
       }
       if (filter === 'all' || filter === 'worlds') {
-        entities.push(...filteredWorlds.map(w => ({ sceneId: w.sceneId, entityType: 'scene' as EntityType })));
+        // Queue the failing scenes of each world, not just its first scene
+        entities.push(...filteredWorlds.flatMap(w => w.scenes
+          .filter(scene => scene.hasFailed)
+          .map(scene => ({ sceneId: scene.sceneId, entityType: 'scene' as EntityType }))));
       }
     } else {
       if (filter === 'all') {
@@ -352,83 +351,6 @@ export function FailingView({ worlds, lands, generatingStatus }: FailingViewProp
 
   const handleAddToPriority = () => {
     setShowPasswordModal(true);
-    setPassword('');
-    setQueueResult(null);
-    setQueueError(null);
-  };
-
-  const handleSubmitQueue = async () => {
-    const entities = getEntitiesToQueue();
-    if (entities.length === 0) return;
-
-    setIsQueuing(true);
-    setQueueError(null);
-    setQueueResult(null);
-
-    try {
-      // Group entities by type
-      const groupedByType: Record<EntityType, string[]> = {
-        scene: [],
-        wearable: [],
-        emote: [],
-      };
-      entities.forEach(e => {
-        groupedByType[e.entityType].push(e.sceneId);
-      });
-
-      // Make separate API calls for each entity type
-      const results: BulkQueueResult = {
-        success: true,
-        total: entities.length,
-        queued: 0,
-        failed: 0,
-        results: { success: [], failed: [] },
-      };
-
-      for (const [entityType, sceneIds] of Object.entries(groupedByType)) {
-        if (sceneIds.length === 0) continue;
-
-        const response = await fetch(`${API_BASE_URL}/api/monitoring/queue-bulk`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            password,
-            sceneIds,
-            entityType,
-          }),
-        });
-
-        const data = await response.json();
-
-        if (!response.ok) {
-          setQueueError(data.error || 'Failed to queue items');
-          return;
-        }
-
-        // Aggregate results
-        results.queued += data.queued || 0;
-        results.failed += data.failed || 0;
-        if (data.results?.success) {
-          results.results.success.push(...data.results.success);
-        }
-        if (data.results?.failed) {
-          results.results.failed.push(...data.results.failed);
-        }
-      }
-
-      setQueueResult(results);
-    } catch (err) {
-      setQueueError(err instanceof Error ? err.message : 'Unknown error');
-    } finally {
-      setIsQueuing(false);
-    }
-  };
-
-  const closePasswordModal = () => {
-    setShowPasswordModal(false);
-    setPassword('');
-    setQueueResult(null);
-    setQueueError(null);
   };
 
   // Calculate totals based on data source
@@ -457,16 +379,33 @@ export function FailingView({ worlds, lands, generatingStatus }: FailingViewProp
       else if (filter === 'wearables') jobsToShow = filteredDbWearables;
       else if (filter === 'emotes') jobsToShow = filteredDbEmotes;
 
+      const categories = Object.entries(failureCategories).sort((a, b) => b[1] - a[1]);
+
       return (
-        <div className="history-grid">
-          {jobsToShow.map((job) => (
-            <FailedJobCard
-              key={`${job.sceneId}-${job.completedAt}`}
-              job={job}
-              onViewReport={() => setSelectedEntity({ sceneId: job.sceneId, entityType: job.entityType as EntityType })}
-            />
-          ))}
-        </div>
+        <>
+          {categories.length > 0 && (
+            <div className="failure-categories">
+              {categories.map(([category, count]) => (
+                <button
+                  key={category}
+                  className={`failure-category-chip ${searchQuery === category ? 'active' : ''}`}
+                  onClick={() => setSearchQuery(searchQuery === category ? '' : category)}
+                >
+                  {category} <span className="failure-category-count">{count}</span>
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="history-grid">
+            {jobsToShow.map((job) => (
+              <FailedJobCard
+                key={`${job.sceneId}-${job.completedAt}`}
+                job={job}
+                onViewReport={() => setSelectedEntity({ sceneId: job.sceneId, entityType: job.entityType as EntityType })}
+              />
+            ))}
+          </div>
+        </>
       );
     }
 
@@ -488,7 +427,7 @@ export function FailingView({ worlds, lands, generatingStatus }: FailingViewProp
           <FailedWorldCard
             key={world.sceneId}
             world={world}
-            onViewReport={() => setSelectedEntity({ sceneId: world.sceneId, entityType: 'scene' })}
+            onViewReport={() => setSelectedEntity({ sceneId: getFailedSceneId(world), entityType: 'scene' })}
           />
         ))}
         {showScenes && filteredScenes.map((scene) => (
@@ -655,88 +594,10 @@ export function FailingView({ worlds, lands, generatingStatus }: FailingViewProp
       )}
 
       {showPasswordModal && (
-        <div className="modal-overlay" onClick={closePasswordModal}>
-          <div className="modal-content priority-modal" onClick={e => e.stopPropagation()}>
-            <button className="modal-close" onClick={closePasswordModal}>&times;</button>
-            <h3>Add to Priority Queue</h3>
-
-            {!queueResult && !isQueuing && (
-              <>
-                <p className="modal-description">
-                  This will add {getSceneIdsToQueue().length} item(s) to the priority queue for re-processing.
-                </p>
-                <div className="modal-form">
-                  <label>
-                    Password:
-                    <input
-                      type="password"
-                      value={password}
-                      onChange={(e) => setPassword(e.target.value)}
-                      placeholder="Enter password"
-                      autoFocus
-                      onKeyDown={(e) => e.key === 'Enter' && password && handleSubmitQueue()}
-                    />
-                  </label>
-                </div>
-                {queueError && (
-                  <div className="modal-error">{queueError}</div>
-                )}
-                <div className="modal-actions">
-                  <button onClick={closePasswordModal} className="modal-btn cancel">
-                    Cancel
-                  </button>
-                  <button
-                    onClick={handleSubmitQueue}
-                    className="modal-btn submit"
-                    disabled={!password}
-                  >
-                    Add to Queue
-                  </button>
-                </div>
-              </>
-            )}
-
-            {isQueuing && (
-              <div className="modal-loading">
-                <div className="spinner" />
-                <p>Adding to priority queue...</p>
-              </div>
-            )}
-
-            {queueResult && (
-              <div className="modal-result">
-                <div className={`result-summary ${queueResult.failed > 0 ? 'partial' : 'success'}`}>
-                  <div className="result-icon">
-                    {queueResult.failed === 0 ? '✓' : '⚠'}
-                  </div>
-                  <div className="result-text">
-                    <strong>{queueResult.queued}</strong> of <strong>{queueResult.total}</strong> items queued
-                  </div>
-                </div>
-                {queueResult.failed > 0 && (
-                  <div className="result-failures">
-                    <p>{queueResult.failed} item(s) failed to queue:</p>
-                    <ul>
-                      {queueResult.results.failed.slice(0, 5).map((f, i) => (
-                        <li key={i}>
-                          <code>{f.sceneId.slice(0, 20)}...</code>: {f.error}
-                        </li>
-                      ))}
-                      {queueResult.results.failed.length > 5 && (
-                        <li>...and {queueResult.results.failed.length - 5} more</li>
-                      )}
-                    </ul>
-                  </div>
-                )}
-                <div className="modal-actions">
-                  <button onClick={closePasswordModal} className="modal-btn submit">
-                    Close
-                  </button>
-                </div>
-              </div>
-            )}
-          </div>
-        </div>
+        <PriorityQueueModal
+          entities={getEntitiesToQueue()}
+          onClose={() => setShowPasswordModal(false)}
+        />
       )}
     </div>
   );
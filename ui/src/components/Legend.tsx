@@ -3,6 +3,8 @@ import { COLORS } from '../utils/colors';
 
 interface LegendProps {
   view: MapView;
+  compareVersion?: string;
+  primaryVersion?: string;
 }
 
 const legendItems: Record<MapView, { color: string; label: string; isGradient?: boolean }[]> = {
@@ -11,15 +13,29 @@ const legendItems: Record<MapView, { color: string; label: string; isGradient?:
     { color: COLORS.optimized, label: 'Optimized' },
     { color: COLORS.failed, label: 'Has Report (Failed)' },
     { color: COLORS.notOptimized, label: 'Not Optimized' },
+    { color: COLORS.regressed, label: 'Regressed by Redeploy' },
   ],
   scenes: [
     { color: COLORS.empty, label: 'Empty Land' },
     { color: 'linear-gradient(45deg, #667eea, #764ba2)', label: 'Occupied by Scene', isGradient: true },
   ],
+  migration: [],
 };
 
-export function Legend({ view }: LegendProps) {
-  const items = legendItems[view];
+function getMigrationItems(from: string, to: string) {
+  return [
+    { color: COLORS.empty, label: 'Empty Land' },
+    { color: COLORS.migrationBoth, label: `Optimized in ${from} and ${to}` },
+    { color: COLORS.migrationOnlyNew, label: `Only in ${to}` },
+    { color: COLORS.migrationOnlyOld, label: `Only in ${from}` },
+    { color: COLORS.migrationNeither, label: 'In neither' },
+  ];
+}
+
+export function Legend({ view, compareVersion, primaryVersion }: LegendProps) {
+  const items = view === 'migration' && compareVersion && primaryVersion
+    ? getMigrationItems(compareVersion, primaryVersion)
+    : legendItems[view];
 
   return (
     <div className="legend">
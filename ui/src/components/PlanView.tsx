@@ -0,0 +1,165 @@
+import { useState, useEffect } from 'react';
+import type { PlannedScene, PriorityPlanResponse } from '../types';
+import { ReportModal } from './ReportModal';
+import { API_BASE_URL } from '../config';
+import { EntityInfo } from './shared/EntityInfo';
+import { PriorityQueueModal } from './shared/PriorityQueueModal';
+import { formatDate } from '../utils/formatters';
+
+const PLAN_SIZE = 100;
+const DEFAULT_QUEUE_COUNT = 20;
+
+interface PlanCardProps {
+  entry: PlannedScene;
+  onViewReport: () => void;
+}
+
+function PlanCard({ entry, onViewReport }: PlanCardProps) {
+  const { factors } = entry;
+  const breakdown = [
+    `parcels ${factors.parcels.toFixed(2)}`,
+    `hotspot ${factors.hotspot.toFixed(2)}`,
+    `recency ${factors.recency.toFixed(2)}`,
+    `failures ${factors.failures.toFixed(2)}`,
+  ].join(', ');
+
+  return (
+    <div className={`history-card plan ${entry.status}`}>
+      <div className="history-card-header">
+        <span className="ranking-badge">#{entry.rank}</span>
+        <span className={`plan-status ${entry.status}`}>
+          {entry.status === 'failed' ? `Failed ×${entry.failureCount}` : 'Not optimized'}
+        </span>
+        {entry.nearestHotspot && <span className="plan-hotspot">📍 {entry.nearestHotspot}</span>}
+      </div>
+
+      <div className="history-scene-info">
+        <EntityInfo entityId={entry.sceneId} entityType="scene" showThumbnail={true} />
+      </div>
+
+      <div className="history-scene-id">
+        <code>{entry.sceneId}</code>
+      </div>
+
+      <div className="history-card-footer">
+        <span className="history-duration" title={breakdown}>
+          Score {entry.score.toFixed(2)} · {entry.parcels} parcel{entry.parcels === 1 ? '' : 's'}
+        </span>
+        <button className="history-view-report-btn" onClick={onViewReport}>
+          View Report
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function PlanView() {
+  const [plan, setPlan] = useState<PriorityPlanResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedSceneId, setSelectedSceneId] = useState<string | null>(null);
+  const [queueCount, setQueueCount] = useState(DEFAULT_QUEUE_COUNT);
+  const [showQueueModal, setShowQueueModal] = useState(false);
+
+  useEffect(() => {
+    async function fetchPlan() {
+      try {
+        const response = await fetch(`${API_BASE_URL}/api/priority-plan?limit=${PLAN_SIZE}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch priority plan');
+        }
+        setPlan(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchPlan();
+  }, []);
+
+  const scenes = plan?.scenes || [];
+  const toQueue = scenes
+    .slice(0, Math.max(0, queueCount))
+    .map((entry) => ({ sceneId: entry.sceneId, entityType: 'scene' as const }));
+
+  if (loading) {
+    return (
+      <div className="ranking-view">
+        <h3>Optimize Next</h3>
+        <div className="ranking-loading">Loading priority plan...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="ranking-view">
+        <h3>Optimize Next</h3>
+        <div className="ranking-error">Error: {error}</div>
+      </div>
+    );
+  }
+
+  if (scenes.length === 0) {
+    return (
+      <div className="ranking-view">
+        <h3>Optimize Next</h3>
+        <div className="no-ranking">Every scene is optimized, nothing to plan</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="ranking-view">
+      <h3>Optimize Next</h3>
+      <div className="plan-header">
+        <span className="plan-summary">
+          Top {scenes.length} of {plan!.candidates} unoptimized scenes, ranked by size, hotspot proximity,
+          deploy recency and past failures ({formatDate(plan!.generatedAt)})
+        </span>
+        <div className="failing-actions">
+          <input
+            className="plan-count-input"
+            type="number"
+            min={1}
+            max={scenes.length}
+            value={queueCount}
+            onChange={(e) => setQueueCount(parseInt(e.target.value, 10) || 0)}
+          />
+          <button
+            className="add-to-priority-btn"
+            onClick={() => setShowQueueModal(true)}
+            disabled={toQueue.length === 0}
+          >
+            Queue Top {toQueue.length}
+          </button>
+        </div>
+      </div>
+
+      <div className="history-grid">
+        {scenes.map((entry) => (
+          <PlanCard
+            key={entry.sceneId}
+            entry={entry}
+            onViewReport={() => setSelectedSceneId(entry.sceneId)}
+          />
+        ))}
+      </div>
+
+      {selectedSceneId && (
+        <ReportModal
+          sceneId={selectedSceneId}
+          entityType="scene"
+          onClose={() => setSelectedSceneId(null)}
+        />
+      )}
+
+      {showQueueModal && (
+        <PriorityQueueModal entities={toQueue} onClose={() => setShowQueueModal(false)} />
+      )}
+    </div>
+  );
+}
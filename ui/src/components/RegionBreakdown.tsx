@@ -0,0 +1,40 @@
+import type { Region } from '../types';
+import { formatNumber, formatPercentage } from '../utils/formatters';
+
+interface RegionBreakdownProps {
+  regions: Region[];
+}
+
+export function RegionBreakdown({ regions }: RegionBreakdownProps) {
+  return (
+    <div className="region-breakdown">
+      <h2 className="map-title">Coverage by Region</h2>
+      <div className="history-table-container">
+        <table className="history-table">
+          <thead>
+            <tr>
+              <th>Region</th>
+              <th>Occupied Lands</th>
+              <th>Scenes</th>
+              <th>Optimized</th>
+              <th>Failed</th>
+              <th>Coverage</th>
+            </tr>
+          </thead>
+          <tbody>
+            {regions.map((region) => (
+              <tr key={region.id}>
+                <td>{region.name}</td>
+                <td>{formatNumber(region.stats.occupiedLands)} / {formatNumber(region.stats.totalLands)}</td>
+                <td>{formatNumber(region.stats.totalScenes)}</td>
+                <td>{formatNumber(region.stats.scenesWithOptimizedAssets)}</td>
+                <td>{formatNumber(region.stats.failedOptimizations)}</td>
+                <td>{formatPercentage(region.stats.optimizationPercentage)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import { useState, useEffect } from 'react';
+import type { DiffScene, DiffWorld, ReportDiffResponse } from '../types';
+import { API_BASE_URL } from '../config';
+import { formatDate, formatPercentage } from '../utils/formatters';
+
+const SNAPSHOT_LIMIT = 30;
+const ROWS_PER_SECTION = 20;
+
+const STATUS_LABELS: Record<string, string> = {
+  optimized: 'Optimized',
+  partial: 'Partial',
+  failed: 'Failed',
+  'not-optimized': 'Not optimized',
+};
+
+function formatStatus(status: string | null): string {
+  return status ? STATUS_LABELS[status] : '—';
+}
+
+function SceneSection({ title, scenes }: { title: string; scenes: DiffScene[] }) {
+  if (scenes.length === 0) return null;
+
+  return (
+    <div className="diff-section">
+      <h3>{title} ({scenes.length})</h3>
+      <div className="history-table-container">
+        <table className="history-table">
+          <thead>
+            <tr>
+              <th>Scene</th>
+              <th>Base Parcel</th>
+              <th>Parcels</th>
+              <th>Before</th>
+              <th>After</th>
+            </tr>
+          </thead>
+          <tbody>
+            {scenes.slice(0, ROWS_PER_SECTION).map((scene) => (
+              <tr key={scene.sceneId}>
+                <td title={scene.sceneId}>{scene.title || <code>{scene.sceneId}</code>}</td>
+                <td>{scene.baseParcel}</td>
+                <td>{scene.parcels}</td>
+                <td>{formatStatus(scene.from)}</td>
+                <td>{formatStatus(scene.to)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {scenes.length > ROWS_PER_SECTION && (
+        <div className="diff-more">…and {scenes.length - ROWS_PER_SECTION} more</div>
+      )}
+    </div>
+  );
+}
+
+function WorldSection({ worlds }: { worlds: DiffWorld[] }) {
+  if (worlds.length === 0) return null;
+
+  return (
+    <div className="diff-section">
+      <h3>Worlds ({worlds.length})</h3>
+      <div className="history-table-container">
+        <table className="history-table">
+          <thead>
+            <tr>
+              <th>World</th>
+              <th>Before</th>
+              <th>After</th>
+            </tr>
+          </thead>
+          <tbody>
+            {worlds.slice(0, ROWS_PER_SECTION).map((world) => (
+              <tr key={world.name}>
+                <td title={world.name}>{world.title}</td>
+                <td>{formatStatus(world.from)}</td>
+                <td>{formatStatus(world.to)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {worlds.length > ROWS_PER_SECTION && (
+        <div className="diff-more">…and {worlds.length - ROWS_PER_SECTION} more</div>
+      )}
+    </div>
+  );
+}
+
+export function ReportDiffPanel() {
+  const [snapshots, setSnapshots] = useState<string[]>([]);
+  const [from, setFrom] = useState<string | null>(null);
+  const [to, setTo] = useState<string | null>(null);
+  const [diff, setDiff] = useState<ReportDiffResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchSnapshots() {
+      try {
+        const response = await fetch(`${API_BASE_URL}/api/report-history?limit=${SNAPSHOT_LIMIT}`);
+        if (!response.ok) return;
+        const data = await response.json();
+        setSnapshots((data.snapshots || []).map((snapshot: { timestamp: string }) => snapshot.timestamp));
+      } catch {
+        // The selectors stay empty and the panel shows the default comparison
+      }
+    }
+
+    fetchSnapshots();
+  }, []);
+
+  // Without a selection the server compares the latest snapshot with the previous one
+  useEffect(() => {
+    async function fetchDiff() {
+      setLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams();
+        if (from) params.set('from', from);
+        if (to) params.set('to', to);
+        const response = await fetch(`${API_BASE_URL}/api/report-diff?${params}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch report diff');
+        }
+        setDiff(data);
+      } catch (err) {
+        setDiff(null);
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchDiff();
+  }, [from, to]);
+
+  const renderSelect = (value: string | null, onChange: (value: string) => void) => (
+    <select className="diff-select" value={value || ''} onChange={(e) => onChange(e.target.value)}>
+      {!value && <option value="">{loading ? 'Loading...' : '—'}</option>}
+      {snapshots.map((timestamp) => (
+        <option key={timestamp} value={timestamp}>{formatDate(timestamp)}</option>
+      ))}
+    </select>
+  );
+
+  const unchanged = diff
+    && diff.optimized.length + diff.regressed.length + diff.added.length + diff.removed.length + diff.worlds.length === 0;
+
+  return (
+    <div className="report-diff">
+      <h2 className="map-title">What Changed</h2>
+
+      <div className="diff-header">
+        {renderSelect(from ?? diff?.fromSnapshot ?? null, setFrom)}
+        <span>→</span>
+        {renderSelect(to ?? diff?.toSnapshot ?? null, setTo)}
+        {diff && (
+          <span className="plan-summary">
+            Coverage {formatPercentage(diff.from.optimizationPercentage)} → {formatPercentage(diff.to.optimizationPercentage)},
+            {' '}{diff.from.totalScenes} → {diff.to.totalScenes} scenes
+          </span>
+        )}
+      </div>
+
+      {error && <div className="ranking-error">Error: {error}</div>}
+      {unchanged && <div className="no-ranking">No scene or world changed between these runs</div>}
+
+      {diff && (
+        <>
+          <SceneSection title="Newly Optimized" scenes={diff.optimized} />
+          <SceneSection title="Regressed" scenes={diff.regressed} />
+          <SceneSection title="New Scenes" scenes={diff.added} />
+          <SceneSection title="Removed Scenes" scenes={diff.removed} />
+          <WorldSection worlds={diff.worlds} />
+        </>
+      )}
+    </div>
+  );
+}
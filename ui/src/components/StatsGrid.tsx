@@ -1,5 +1,5 @@
 import type { Stats } from '../types';
-import { formatNumber } from '../utils/formatters';
+import { formatFileSize, formatNumber, formatPercentage } from '../utils/formatters';
 
 interface StatsGridProps {
   stats: Stats;
@@ -32,6 +32,24 @@ export function StatsGrid({ stats }: StatsGridProps) {
         <div className="stat-value">{formatNumber(stats.failedOptimizations)}</div>
         <div className="stat-label">Failed</div>
       </div>
+      {!!stats.regressedParcels && (
+        <div className="stat-card regressed">
+          <div className="stat-value">{formatNumber(stats.regressedParcels)}</div>
+          <div className="stat-label">Regressed by Redeploy ({formatNumber(stats.regressedScenes ?? 0)} scenes)</div>
+        </div>
+      )}
+      {!!stats.scenesWithMetrics && (
+        <>
+          <div className="stat-card optimized">
+            <div className="stat-value">{formatFileSize(stats.bytesSaved)}</div>
+            <div className="stat-label">Saved ({formatNumber(stats.scenesWithMetrics)} scenes)</div>
+          </div>
+          <div className="stat-card">
+            <div className="stat-value">{formatPercentage((1 - stats.meanCompressionRatio) * 100)}</div>
+            <div className="stat-label">Mean Size Reduction</div>
+          </div>
+        </>
+      )}
     </div>
   );
 }
@@ -12,6 +12,7 @@ export function TabNavigation({ activeTab, onTabChange }: TabNavigationProps) {
     { id: 'pipeline', label: 'Pipeline' },
     { id: 'ranking', label: 'Ranking' },
     { id: 'failing', label: 'Failing' },
+    { id: 'plan', label: 'Optimize Next' },
     { id: 'history', label: 'History' },
   ];
 
@@ -1,5 +1,5 @@
 import type { LandData } from '../types';
-import { formatFileSize } from '../utils/formatters';
+import { formatDuration, formatFileSize, formatPercentage } from '../utils/formatters';
 
 interface TooltipProps {
   land: LandData;
@@ -12,6 +12,9 @@ export function Tooltip({ land, x, y }: TooltipProps) {
     if (land.hasOptimizedAssets) {
       return <span className="tooltip-optimized">Optimized</span>;
     }
+    if (land.redeploy) {
+      return <span className="tooltip-regressed">Regressed by Redeploy</span>;
+    }
     if (land.optimizationReport) {
       if (land.optimizationReport.success) {
         return <span className="tooltip-optimized">Report: Success</span>;
@@ -36,6 +39,13 @@ export function Tooltip({ land, x, y }: TooltipProps) {
       <div>Position: ({land.x}, {land.y})</div>
       <div>Scene ID: {land.sceneId || 'Empty'}</div>
       <div>Status: {getStatusDisplay()}</div>
+      {land.redeploy && (
+        <div className="tooltip-report-item">
+          <span className="tooltip-report-label">Previously optimized:</span>{' '}
+          {land.redeploy.previousSceneId}
+          {land.redeploy.redeployedAt && ` (redeployed ${new Date(land.redeploy.redeployedAt).toLocaleDateString()})`}
+        </div>
+      )}
 
       {land.optimizationReport && (
         <div className="tooltip-report">
@@ -58,6 +68,27 @@ export function Tooltip({ land, x, y }: TooltipProps) {
               {formatFileSize(land.optimizationReport.details.optimizedSize)}
             </div>
           )}
+          {land.optimizationReport.details?.compressionRatio !== undefined && (
+            <div className="tooltip-report-item">
+              <span className="tooltip-report-label">Size Reduction:</span>{' '}
+              {formatPercentage((1 - land.optimizationReport.details.compressionRatio) * 100)}
+            </div>
+          )}
+          {land.optimizationReport.details?.totalAssets !== undefined && (
+            <div className="tooltip-report-item">
+              <span className="tooltip-report-label">Assets:</span>{' '}
+              {land.optimizationReport.details.successfulAssets ?? 0}/{land.optimizationReport.details.totalAssets} ok
+              {!!land.optimizationReport.details.failedAssets && (
+                <span style={{ color: '#ef4444' }}> ({land.optimizationReport.details.failedAssets} failed)</span>
+              )}
+            </div>
+          )}
+          {land.optimizationReport.details?.processingTime !== undefined && (
+            <div className="tooltip-report-item">
+              <span className="tooltip-report-label">Processing:</span>{' '}
+              {formatDuration(land.optimizationReport.details.processingTime)}
+            </div>
+          )}
         </div>
       )}
 
@@ -0,0 +1,61 @@
+import type { ReportVersions, Stats } from '../types';
+import { formatNumber, formatPercentage } from '../utils/formatters';
+
+interface VersionCoverageProps {
+  versions: ReportVersions;
+  stats: Stats;
+  selectedVersion: string;
+  onVersionChange: (version: string) => void;
+}
+
+export function VersionCoverage({ versions, stats, selectedVersion, onVersionChange }: VersionCoverageProps) {
+  const coverage = stats.versionCoverage || {};
+  const migration = stats.migration || [];
+
+  return (
+    <div className="version-coverage">
+      <div className="view-toggle">
+        {versions.list.map((version) => (
+          <button
+            key={version}
+            className={`control-btn ${selectedVersion === version ? 'active' : ''}`}
+            onClick={() => onVersionChange(version)}
+          >
+            {version}{version === versions.primary ? ' (primary)' : ''}
+          </button>
+        ))}
+      </div>
+
+      <div className="history-table-container">
+        <table className="history-table">
+          <thead>
+            <tr>
+              <th>Version</th>
+              <th>Optimized Scenes</th>
+              <th>Coverage</th>
+              <th>Only in Version</th>
+              <th>Only in {versions.primary}</th>
+              <th>In Neither</th>
+            </tr>
+          </thead>
+          <tbody>
+            {versions.list.map((version) => {
+              const entry = coverage[version];
+              const change = migration.find((item) => item.from === version);
+              return (
+                <tr key={version}>
+                  <td>{version}</td>
+                  <td>{entry ? formatNumber(entry.scenesWithOptimizedAssets) : '-'}</td>
+                  <td>{entry ? formatPercentage(entry.optimizationPercentage) : '-'}</td>
+                  <td>{change ? formatNumber(change.onlyInFrom) : '-'}</td>
+                  <td>{change ? formatNumber(change.onlyInTo) : '-'}</td>
+                  <td>{change ? formatNumber(change.inNeither) : '-'}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -3,17 +3,21 @@ import type { MapView } from '../types';
 interface ViewToggleProps {
   currentView: MapView;
   onViewChange: (view: MapView) => void;
+  showMigration?: boolean;
 }
 
 const views: { id: MapView; label: string }[] = [
   { id: 'optimization', label: 'Optimization View' },
   { id: 'scenes', label: 'Scene View' },
+  { id: 'migration', label: 'Migration View' },
 ];
 
-export function ViewToggle({ currentView, onViewChange }: ViewToggleProps) {
+export function ViewToggle({ currentView, onViewChange, showMigration = false }: ViewToggleProps) {
+  const visibleViews = showMigration ? views : views.filter((view) => view.id !== 'migration');
+
   return (
     <div className="view-toggle">
-      {views.map((view) => (
+      {visibleViews.map((view) => (
         <button
           key={view.id}
           className={`control-btn ${currentView === view.id ? 'active' : ''}`}
@@ -1,12 +1,15 @@
 import { useRef, useEffect, useMemo, useCallback, useState, MouseEvent } from 'react';
-import type { LandData, MapView } from '../../types';
+import type { LandData, MapView, Region } from '../../types';
+import { getRegionOutline } from '../../utils/regions';
 import { usePanZoom } from './usePanZoom';
-import { useCanvasRenderer } from './useCanvasRenderer';
+import { useCanvasRenderer, MigrationBits } from './useCanvasRenderer';
 
 interface WorldMapProps {
   lands: LandData[];
   sceneColorIndices: Record<string, number>;
   view: MapView;
+  migration?: MigrationBits;
+  regions?: Region[];
   onLandClick: (land: LandData) => void;
   onLandHover: (land: LandData | null, x: number, y: number) => void;
 }
@@ -15,11 +18,19 @@ export function WorldMap({
   lands,
   sceneColorIndices,
   view,
+  migration,
+  regions = [],
   onLandClick,
   onLandHover,
 }: WorldMapProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [cursor, setCursor] = useState('grab');
+  const [showRegions, setShowRegions] = useState(false);
+
+  const regionOutlines = useMemo(
+    () => (showRegions ? regions.flatMap(getRegionOutline) : undefined),
+    [regions, showRegions]
+  );
 
   const {
     zoom,
@@ -39,6 +50,8 @@ export function WorldMap({
     lands,
     sceneColorIndices,
     view,
+    migration,
+    regionOutlines,
     zoom,
     offsetX,
     offsetY,
@@ -172,6 +185,14 @@ export function WorldMap({
           <button className="control-btn" onClick={zoomOut}>-</button>
           <button className="control-btn" onClick={resetZoom}>Reset</button>
         </div>
+        {regions.length > 0 && (
+          <button
+            className={`control-btn ${showRegions ? 'active' : ''}`}
+            onClick={() => setShowRegions((show) => !show)}
+          >
+            {showRegions ? 'Hide Regions' : 'Show Regions'}
+          </button>
+        )}
         <button className="control-btn" onClick={handleDownload}>Download Map</button>
       </div>
     </div>
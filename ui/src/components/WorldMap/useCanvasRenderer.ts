@@ -1,15 +1,24 @@
 import { useCallback } from 'react';
 import type { LandData, MapView } from '../../types';
 import { COLORS, getColorForSceneIndex } from '../../utils/colors';
+import type { OutlineSegment } from '../../utils/regions';
 
 const WORLD_SIZE = 351;
 const CELL_SIZE = 3;
 const OFFSET = 175;
 
+// Version bits compared in the migration view (old version vs primary)
+export interface MigrationBits {
+  fromBit: number;
+  toBit: number;
+}
+
 interface UseCanvasRendererOptions {
   lands: LandData[];
   sceneColorIndices: Record<string, number>;
   view: MapView;
+  migration?: MigrationBits;
+  regionOutlines?: OutlineSegment[];
   zoom: number;
   offsetX: number;
   offsetY: number;
@@ -18,16 +27,30 @@ interface UseCanvasRendererOptions {
 function getOptimizationColor(land: LandData): string {
   if (!land.sceneId) return COLORS.empty;
   if (land.hasOptimizedAssets) return COLORS.optimized;
+  if (land.redeploy) return COLORS.regressed;
   if (land.optimizationReport) {
     return land.optimizationReport.success ? COLORS.optimized : COLORS.failed;
   }
   return COLORS.notOptimized;
 }
 
+function getMigrationColor(land: LandData, { fromBit, toBit }: MigrationBits): string {
+  if (!land.sceneId) return COLORS.empty;
+  const mask = land.versionMask ?? 0;
+  const inOld = (mask & (1 << fromBit)) !== 0;
+  const inNew = (mask & (1 << toBit)) !== 0;
+  if (inOld && inNew) return COLORS.migrationBoth;
+  if (inNew) return COLORS.migrationOnlyNew;
+  if (inOld) return COLORS.migrationOnlyOld;
+  return COLORS.migrationNeither;
+}
+
 export function useCanvasRenderer({
   lands,
   sceneColorIndices,
   view,
+  migration,
+  regionOutlines,
   zoom,
   offsetX,
   offsetY,
@@ -36,11 +59,14 @@ export function useCanvasRenderer({
     if (view === 'optimization') {
       return getOptimizationColor(land);
     }
+    if (view === 'migration' && migration) {
+      return getMigrationColor(land, migration);
+    }
     // scenes view
     if (!land.sceneId) return COLORS.empty;
     const colorIndex = sceneColorIndices[land.sceneId] ?? 0;
     return getColorForSceneIndex(colorIndex);
-  }, [view, sceneColorIndices]);
+  }, [view, migration, sceneColorIndices]);
 
   const draw = useCallback((ctx: CanvasRenderingContext2D) => {
     const canvas = ctx.canvas;
@@ -68,8 +94,20 @@ export function useCanvasRenderer({
     ctx.lineTo(WORLD_SIZE * CELL_SIZE, OFFSET * CELL_SIZE);
     ctx.stroke();
 
+    // Draw region outlines on top, at a constant on-screen width
+    if (regionOutlines && regionOutlines.length > 0) {
+      ctx.strokeStyle = COLORS.regionOutline;
+      ctx.lineWidth = 1.5 / zoom;
+      ctx.beginPath();
+      for (const [x1, y1, x2, y2] of regionOutlines) {
+        ctx.moveTo((x1 + OFFSET) * CELL_SIZE, (y1 + OFFSET) * CELL_SIZE);
+        ctx.lineTo((x2 + OFFSET) * CELL_SIZE, (y2 + OFFSET) * CELL_SIZE);
+      }
+      ctx.stroke();
+    }
+
     ctx.restore();
-  }, [lands, getColor, zoom, offsetX, offsetY]);
+  }, [lands, getColor, regionOutlines, zoom, offsetX, offsetY]);
 
   const getCoordsFromMouse = useCallback((clientX: number, clientY: number, canvasRect: DOMRect) => {
     const x = (clientX - canvasRect.left) / zoom - offsetX;
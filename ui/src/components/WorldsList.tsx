@@ -1,8 +1,19 @@
 import { useState } from 'react';
-import type { WorldWithOptimization, WorldsStats } from '../types';
+import type { WorldOptimizationStatus, WorldWithOptimization, WorldsStats } from '../types';
 import { ReportModal } from './ReportModal';
 
-type FilterType = 'all' | 'optimized' | 'not-optimized';
+type FilterType = 'all' | 'optimized' | 'partial' | 'not-optimized';
+
+const STATUS_LABELS: Record<WorldOptimizationStatus, string> = {
+  optimized: 'Optimized',
+  partial: 'Partially Optimized',
+  'not-optimized': 'Not Optimized',
+};
+
+interface SelectedScene {
+  sceneId: string;
+  title: string;
+}
 
 interface WorldsListProps {
   worlds: WorldWithOptimization[];
@@ -11,14 +22,11 @@ interface WorldsListProps {
 
 export function WorldsList({ worlds, stats }: WorldsListProps) {
   const [filter, setFilter] = useState<FilterType>('all');
-  const [selectedWorld, setSelectedWorld] = useState<WorldWithOptimization | null>(null);
+  const [selectedScene, setSelectedScene] = useState<SelectedScene | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
 
   const filteredWorlds = worlds.filter((world) => {
-    const matchesFilter =
-      filter === 'all' ||
-      (filter === 'optimized' && world.hasOptimizedAssets) ||
-      (filter === 'not-optimized' && !world.hasOptimizedAssets);
+    const matchesFilter = filter === 'all' || world.status === filter;
 
     const matchesSearch =
       searchQuery === '' ||
@@ -48,6 +56,12 @@ export function WorldsList({ worlds, stats }: WorldsListProps) {
             <div className="stat-value">{stats.optimizedWorlds}</div>
             <div className="stat-label">Optimized</div>
           </div>
+          {stats.partiallyOptimizedWorlds !== undefined && (
+            <div className="stat-card partial">
+              <div className="stat-value">{stats.partiallyOptimizedWorlds}</div>
+              <div className="stat-label">Partially Optimized</div>
+            </div>
+          )}
           <div className="stat-card not-optimized">
             <div className="stat-value">{stats.notOptimizedWorlds}</div>
             <div className="stat-label">Not Optimized</div>
@@ -81,6 +95,12 @@ export function WorldsList({ worlds, stats }: WorldsListProps) {
           >
             Optimized ({stats?.optimizedWorlds || 0})
           </button>
+          <button
+            className={filter === 'partial' ? 'active' : ''}
+            onClick={() => setFilter('partial')}
+          >
+            Partial ({stats?.partiallyOptimizedWorlds || 0})
+          </button>
           <button
             className={filter === 'not-optimized' ? 'active' : ''}
             onClick={() => setFilter('not-optimized')}
@@ -99,17 +119,17 @@ export function WorldsList({ worlds, stats }: WorldsListProps) {
           <WorldCard
             key={world.name}
             world={world}
-            onViewReport={() => setSelectedWorld(world)}
+            onViewReport={(sceneId, title) => setSelectedScene({ sceneId, title })}
           />
         ))}
       </div>
 
-      {selectedWorld && (
+      {selectedScene && (
         <ReportModal
-          sceneId={selectedWorld.sceneId}
+          sceneId={selectedScene.sceneId}
           entityType="scene"
-          onClose={() => setSelectedWorld(null)}
-          title={`World: ${selectedWorld.name}`}
+          onClose={() => setSelectedScene(null)}
+          title={selectedScene.title}
         />
       )}
     </div>
@@ -118,20 +138,25 @@ export function WorldsList({ worlds, stats }: WorldsListProps) {
 
 interface WorldCardProps {
   world: WorldWithOptimization;
-  onViewReport: () => void;
+  onViewReport: (sceneId: string, title: string) => void;
 }
 
 function WorldCard({ world, onViewReport }: WorldCardProps) {
+  const [expanded, setExpanded] = useState(false);
+  const isMultiScene = world.scenes.length > 1;
+  const optimizedScenes = world.scenes.filter((scene) => scene.hasOptimizedAssets).length;
+
   return (
-    <div className={`world-card ${world.hasOptimizedAssets ? 'optimized' : 'not-optimized'}`}>
+    <div className={`world-card ${world.status}`}>
       <div className="world-thumbnail">
         {world.thumbnail ? (
           <img src={world.thumbnail} alt={world.name} loading="lazy" />
         ) : (
           <div className="no-thumbnail">No Image</div>
         )}
-        <div className={`optimization-badge ${world.hasOptimizedAssets ? 'optimized' : ''}`}>
-          {world.hasOptimizedAssets ? 'Optimized' : 'Not Optimized'}
+        <div className={`optimization-badge ${world.status === 'not-optimized' ? '' : world.status}`}>
+          {STATUS_LABELS[world.status]}
+          {world.status === 'partial' && ` (${optimizedScenes}/${world.scenes.length})`}
         </div>
       </div>
       <div className="world-info">
@@ -141,12 +166,36 @@ function WorldCard({ world, onViewReport }: WorldCardProps) {
         )}
         <div className="world-meta">
           <span>{world.parcels} parcel{world.parcels !== 1 ? 's' : ''}</span>
+          {isMultiScene && <span>{world.scenes.length} scenes</span>}
         </div>
         <div className="world-actions">
-          <button onClick={onViewReport} className="view-report-btn">
-            View Report
-          </button>
+          {isMultiScene ? (
+            <button onClick={() => setExpanded(!expanded)} className="view-report-btn">
+              {expanded ? 'Hide Scenes' : 'Show Scenes'}
+            </button>
+          ) : (
+            <button onClick={() => onViewReport(world.sceneId, `World: ${world.name}`)} className="view-report-btn">
+              View Report
+            </button>
+          )}
         </div>
+        {isMultiScene && expanded && (
+          <ul className="world-scenes">
+            {world.scenes.map((scene) => (
+              <li key={scene.sceneId} className="world-scene">
+                <span className={`world-scene-status ${scene.hasOptimizedAssets ? 'optimized' : scene.hasFailed ? 'failed' : ''}`} />
+                <button
+                  className="world-scene-name"
+                  onClick={() => onViewReport(scene.sceneId, `${world.name}: ${scene.title}`)}
+                  title={scene.sceneId}
+                >
+                  {scene.title}
+                </button>
+                <span className="world-scene-parcels">{scene.parcels}p</span>
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
     </div>
   );
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
-import type { EntityType } from '../../types';
+import type { CompressedSceneMetadata, EntityType } from '../../types';
+import { formatDate } from '../../utils/formatters';
 
 // Shared metadata types
 export interface SceneMetadata {
@@ -9,6 +10,7 @@ export interface SceneMetadata {
   loading: boolean;
   isWorld?: boolean;
   worldName?: string;
+  deployedAt?: number;
 }
 
 // API URLs
@@ -20,6 +22,7 @@ const sceneMetadataCache = new Map<string, SceneMetadata>();
 
 // Entity response structure from Catalyst/Worlds
 interface EntityResponse {
+  timestamp?: number;
   content?: { file: string; hash: string }[];
   metadata?: {
     display?: {
@@ -64,12 +67,29 @@ async function fetchSceneData(
       }
     }
 
-    return { name, thumbnail, positions, loading: false, isWorld, worldName };
+    return { name, thumbnail, positions, loading: false, isWorld, worldName, deployedAt: entity.timestamp };
   } catch {
     return null;
   }
 }
 
+/**
+ * Fill the cache from the report's metadata table so scenes in the report are
+ * never fetched from the catalyst; only unknown ids fall back to live fetches.
+ * Format: [title, baseParcel, thumbnailHash, deployedAt]
+ */
+export function primeSceneMetadata(table: Record<string, CompressedSceneMetadata>): void {
+  for (const [sceneId, [title, baseParcel, thumbnailHash, deployedAt]] of Object.entries(table)) {
+    sceneMetadataCache.set(sceneId, {
+      name: title || 'Unnamed Scene',
+      thumbnail: thumbnailHash ? `${CATALYST_URL}/contents/${thumbnailHash}` : undefined,
+      positions: baseParcel ? [baseParcel] : [],
+      loading: false,
+      deployedAt: deployedAt ?? undefined,
+    });
+  }
+}
+
 // Fetch scene metadata (tries Catalyst first, then Worlds)
 export async function fetchSceneMetadata(sceneId: string): Promise<SceneMetadata> {
   const cached = sceneMetadataCache.get(sceneId);
@@ -201,7 +221,12 @@ export function EntityInfo({
                 <div className="entity-info__subtitle">🌐 {metadata.worldName}</div>
               ) : (
                 metadata?.positions && metadata.positions.length > 0 && (
-                  <div className="entity-info__subtitle">{metadata.positions[0]}</div>
+                  <div
+                    className="entity-info__subtitle"
+                    title={metadata.deployedAt ? `Deployed ${formatDate(metadata.deployedAt)}` : undefined}
+                  >
+                    {metadata.positions[0]}
+                  </div>
                 )
               )}
             </>
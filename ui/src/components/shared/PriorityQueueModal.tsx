@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import type { EntityType } from '../../types';
+import { API_BASE_URL } from '../../config';
+
+export interface EntityToQueue {
+  sceneId: string;
+  entityType: EntityType;
+}
+
+interface BulkQueueResult {
+  success: boolean;
+  total: number;
+  queued: number;
+  failed: number;
+  results: {
+    success: string[];
+    failed: { sceneId: string; error: string }[];
+  };
+}
+
+interface PriorityQueueModalProps {
+  entities: EntityToQueue[];
+  onClose: () => void;
+}
+
+/**
+ * Password prompt that adds entities to the priority queue through the
+ * queue-bulk endpoint, one request per entity type, and shows the outcome.
+ */
+export function PriorityQueueModal({ entities, onClose }: PriorityQueueModalProps) {
+  const [password, setPassword] = useState('');
+  const [isQueuing, setIsQueuing] = useState(false);
+  const [queueResult, setQueueResult] = useState<BulkQueueResult | null>(null);
+  const [queueError, setQueueError] = useState<string | null>(null);
+
+  const handleSubmitQueue = async () => {
+    if (entities.length === 0) return;
+
+    setIsQueuing(true);
+    setQueueError(null);
+    setQueueResult(null);
+
+    try {
+      // Group entities by type
+      const groupedByType: Record<EntityType, string[]> = {
+        scene: [],
+        wearable: [],
+        emote: [],
+      };
+      entities.forEach(e => {
+        groupedByType[e.entityType].push(e.sceneId);
+      });
+
+      // Make separate API calls for each entity type
+      const results: BulkQueueResult = {
+        success: true,
+        total: entities.length,
+        queued: 0,
+        failed: 0,
+        results: { success: [], failed: [] },
+      };
+
+      for (const [entityType, sceneIds] of Object.entries(groupedByType)) {
+        if (sceneIds.length === 0) continue;
+
+        const response = await fetch(`${API_BASE_URL}/api/monitoring/queue-bulk`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            password,
+            sceneIds,
+            entityType,
+          }),
+        });
+
+        const data = await response.json();
+
+        if (!response.ok) {
+          setQueueError(data.error || 'Failed to queue items');
+          return;
+        }
+
+        // Aggregate results
+        results.queued += data.queued || 0;
+        results.failed += data.failed || 0;
+        if (data.results?.success) {
+          results.results.success.push(...data.results.success);
+        }
+        if (data.results?.failed) {
+          results.results.failed.push(...data.results.failed);
+        }
+      }
+
+      setQueueResult(results);
+    } catch (err) {
+      setQueueError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setIsQueuing(false);
+    }
+  };
+
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content priority-modal" onClick={e => e.stopPropagation()}>
+        <button className="modal-close" onClick={onClose}>&times;</button>
+        <h3>Add to Priority Queue</h3>
+
+        {!queueResult && !isQueuing && (
+          <>
+            <p className="modal-description">
+              This will add {entities.length} item(s) to the priority queue for re-processing.
+            </p>
+            <div className="modal-form">
+              <label>
+                Password:
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Enter password"
+                  autoFocus
+                  onKeyDown={(e) => e.key === 'Enter' && password && handleSubmitQueue()}
+                />
+              </label>
+            </div>
+            {queueError && (
+              <div className="modal-error">{queueError}</div>
+            )}
+            <div className="modal-actions">
+              <button onClick={onClose} className="modal-btn cancel">
+                Cancel
+              </button>
+              <button
+                onClick={handleSubmitQueue}
+                className="modal-btn submit"
+                disabled={!password}
+              >
+                Add to Queue
+              </button>
+            </div>
+          </>
+        )}
+
+        {isQueuing && (
+          <div className="modal-loading">
+            <div className="spinner" />
+            <p>Adding to priority queue...</p>
+          </div>
+        )}
+
+        {queueResult && (
+          <div className="modal-result">
+            <div className={`result-summary ${queueResult.failed > 0 ? 'partial' : 'success'}`}>
+              <div className="result-icon">
+                {queueResult.failed === 0 ? '✓' : '⚠'}
+              </div>
+              <div className="result-text">
+                <strong>{queueResult.queued}</strong> of <strong>{queueResult.total}</strong> items queued
+              </div>
+            </div>
+            {queueResult.failed > 0 && (
+              <div className="result-failures">
+                <p>{queueResult.failed} item(s) failed to queue:</p>
+                <ul>
+                  {queueResult.results.failed.slice(0, 5).map((f, i) => (
+                    <li key={i}>
+                      <code>{f.sceneId.slice(0, 20)}...</code>: {f.error}
+                    </li>
+                  ))}
+                  {queueResult.results.failed.length > 5 && (
+                    <li>...and {queueResult.results.failed.length - 5} more</li>
+                  )}
+                </ul>
+              </div>
+            )}
+            <div className="modal-actions">
+              <button onClick={onClose} className="modal-btn submit">
+                Close
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
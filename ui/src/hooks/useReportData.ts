@@ -1,6 +1,19 @@
 import { useState, useEffect } from 'react';
-import type { CompressedReportData, LandData, Stats, WorldWithOptimization, WorldsStats } from '../types';
+import type {
+  CompressedMetrics,
+  CompressedReportData,
+  EntityCoverage,
+  LandData,
+  Region,
+  ReportVersions,
+  Stats,
+  WorldScene,
+  WorldWithOptimization,
+  WorldsStats,
+} from '../types';
 import { URLS } from '../config';
+import { primeSceneMetadata } from '../components/shared/EntityInfo';
+import { REPORT_FORMAT_VERSION, getWorldOptimizationStatus, validateReportPayload } from '../../../src/shared/report-schema';
 
 interface ReportData {
   lands: LandData[];
@@ -9,6 +22,9 @@ interface ReportData {
   generatedAt: number;
   worlds: WorldWithOptimization[];
   worldsStats: WorldsStats | null;
+  versions: ReportVersions | null;
+  entityCoverage: EntityCoverage | null;
+  regions: Region[];
 }
 
 interface GeneratingStatus {
@@ -21,31 +37,81 @@ interface UseReportDataResult {
   data: ReportData | null;
   isLoading: boolean;
   error: string | null;
+  incompatible: boolean;
   generatingStatus: GeneratingStatus | null;
 }
 
+// Format: [originalSize, optimizedSize, totalAssets, successfulAssets, failedAssets, processingTime]
+function decompressMetrics(metrics: CompressedMetrics | undefined) {
+  if (!metrics) return undefined;
+  const value = (index: number) => metrics[index] ?? undefined;
+  const originalSize = value(0);
+  const optimizedSize = value(1);
+
+  return {
+    originalSize,
+    optimizedSize,
+    compressionRatio: originalSize && optimizedSize !== undefined ? optimizedSize / originalSize : undefined,
+    totalAssets: value(2),
+    successfulAssets: value(3),
+    failedAssets: value(4),
+    processingTime: value(5),
+  };
+}
+
 function decompressData(compressed: CompressedReportData): ReportData {
+  const metrics = compressed.m || {};
+  const versionMasks = compressed.ov?.b;
+  // Format: [x, y, previousSceneId, redeployedAt]
+  const redeploys = new Map((compressed.r || []).map((redeploy) => [`${redeploy[0]},${redeploy[1]}`, {
+    previousSceneId: redeploy[2],
+    redeployedAt: redeploy[3] ?? undefined,
+  }]));
   const lands: LandData[] = compressed.l.map((land) => ({
     x: land[0],
     y: land[1],
     sceneId: land[2],
     hasOptimizedAssets: land[3] === 1,
+    versionMask: versionMasks ? versionMasks[compressed.c[land[2]]] ?? 0 : undefined,
+    redeploy: redeploys.get(`${land[0]},${land[1]}`),
     optimizationReport: land[4] !== undefined ? {
       success: land[4] === 1,
+      details: decompressMetrics(metrics[land[2]]),
     } : undefined,
   }));
 
   // Decompress worlds data
-  // Format: [name, sceneId, title, thumbnail, parcels, hasOptimized, hasFailed?]
-  const worlds: WorldWithOptimization[] = (compressed.w || []).map((world) => ({
-    name: world[0],
-    sceneId: world[1],
-    title: world[2],
-    thumbnail: world[3] || undefined,
-    parcels: world[4],
-    hasOptimizedAssets: world[5] === 1,
-    hasFailed: world[6] === 1,
-  }));
+  // Format: [name, sceneId, title, thumbnail, parcels, hasOptimized, hasFailed?, scenes?]
+  // Single-scene worlds carry no scene list, their only scene is the world itself
+  const worlds: WorldWithOptimization[] = (compressed.w || []).map((world) => {
+    const scenes: WorldScene[] = world[7]
+      ? world[7].map((scene) => ({
+          sceneId: scene[0],
+          title: scene[1],
+          parcels: scene[2],
+          hasOptimizedAssets: scene[3] === 1,
+          hasFailed: scene[4] === 1,
+        }))
+      : [{
+          sceneId: world[1],
+          title: world[2],
+          parcels: world[4],
+          hasOptimizedAssets: world[5] === 1,
+          hasFailed: world[6] === 1,
+        }];
+
+    return {
+      name: world[0],
+      sceneId: world[1],
+      title: world[2],
+      thumbnail: world[3] || undefined,
+      parcels: world[4],
+      hasOptimizedAssets: world[5] === 1,
+      hasFailed: world[6] === 1,
+      status: getWorldOptimizationStatus(scenes),
+      scenes,
+    };
+  });
 
   return {
     lands,
@@ -54,24 +120,48 @@ function decompressData(compressed: CompressedReportData): ReportData {
     generatedAt: compressed.g,
     worlds,
     worldsStats: compressed.ws || null,
+    versions: compressed.ov ? { primary: compressed.ov.p, list: compressed.ov.vs } : null,
+    entityCoverage: compressed.e || null,
+    regions: (compressed.rg || []).map((region) => ({
+      id: region.i,
+      name: region.n,
+      rects: region.b,
+      parcels: region.p,
+      stats: region.s,
+    })),
   };
 }
 
+// Unchanged reports cost a 304, so checking for a new generation is cheap
+const REVALIDATE_INTERVAL_MS = 5 * 60 * 1000;
+
 export function useReportData(): UseReportDataResult {
   const [data, setData] = useState<ReportData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [incompatible, setIncompatible] = useState(false);
   const [generatingStatus, setGeneratingStatus] = useState<GeneratingStatus | null>(null);
 
   useEffect(() => {
     let pollInterval: ReturnType<typeof setInterval> | null = null;
+    let revalidateInterval: ReturnType<typeof setInterval> | null = null;
+    let currentEtag: string | null = null;
 
-    async function fetchData() {
+    // Revalidation runs in the background and keeps the current report on screen if it fails
+    async function fetchData(revalidating = false) {
       try {
-        setIsLoading(true);
-        setError(null);
+        if (!revalidating) {
+          setIsLoading(true);
+          setError(null);
+          setIncompatible(false);
+        }
+
+        // no-cache makes the browser send If-None-Match for its cached copy
+        const response = await fetch(URLS.reportData, { cache: 'no-cache' });
 
-        const response = await fetch(URLS.reportData);
+        if (revalidating && !response.ok) {
+          return;
+        }
 
         if (response.status === 503) {
           // Report not ready yet - check if generating
@@ -86,7 +176,7 @@ export function useReportData(): UseReportDataResult {
 
             // Start polling for updates
             if (!pollInterval) {
-              pollInterval = setInterval(fetchData, 3000);
+              pollInterval = setInterval(() => fetchData(), 3000);
             }
             return;
           } else {
@@ -98,7 +188,7 @@ export function useReportData(): UseReportDataResult {
             setIsLoading(false);
             // Poll less frequently when waiting
             if (!pollInterval) {
-              pollInterval = setInterval(fetchData, 10000);
+              pollInterval = setInterval(() => fetchData(), 10000);
             }
             return;
           }
@@ -114,14 +204,46 @@ export function useReportData(): UseReportDataResult {
           pollInterval = null;
         }
 
-        const compressed: CompressedReportData = await response.json();
+        // Unchanged report: the browser served its cached copy after a 304, nothing to decode
+        const etag = response.headers.get('ETag');
+        if (etag && etag === currentEtag) {
+          return;
+        }
+
+        const validation = validateReportPayload(await response.json());
+        if (!validation.valid) {
+          setData(null);
+          setGeneratingStatus(null);
+          if (!validation.compatible) {
+            setIncompatible(true);
+            setError(
+              `The report uses format version ${validation.version}, but this page reads version ${REPORT_FORMAT_VERSION}. ` +
+              'Reload the page once the server and UI are on the same release.'
+            );
+          } else {
+            setError(`The report data is malformed: ${validation.errors.join('; ')}`);
+          }
+          return;
+        }
+
+        const compressed: CompressedReportData = validation.payload;
         const decompressed = decompressData(compressed);
+        primeSceneMetadata(compressed.md || {});
         setData(decompressed);
         setGeneratingStatus(null);
+        currentEtag = etag;
+
+        if (!revalidateInterval) {
+          revalidateInterval = setInterval(() => fetchData(true), REVALIDATE_INTERVAL_MS);
+        }
       } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to load report data');
+        if (!revalidating) {
+          setError(err instanceof Error ? err.message : 'Failed to load report data');
+        }
       } finally {
-        setIsLoading(false);
+        if (!revalidating) {
+          setIsLoading(false);
+        }
       }
     }
 
@@ -131,8 +253,11 @@ export function useReportData(): UseReportDataResult {
       if (pollInterval) {
         clearInterval(pollInterval);
       }
+      if (revalidateInterval) {
+        clearInterval(revalidateInterval);
+      }
     };
   }, []);
 
-  return { data, isLoading, error, generatingStatus };
+  return { data, isLoading, error, incompatible, generatingStatus };
 }
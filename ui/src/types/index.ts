@@ -1,3 +1,5 @@
+import type { RegionStats, WorldOptimizationStatus } from '../../../src/shared/report-schema';
+
 export interface OptimizationReport {
   sceneId: string;
   success: boolean;
@@ -18,6 +20,11 @@ export interface LandData {
   y: number;
   sceneId: string | null;
   hasOptimizedAssets: boolean;
+  versionMask?: number; // bit n set when optimized in versions[n] (multi-version reports only)
+  redeploy?: {
+    previousSceneId: string; // optimized entity the parcel pointed to before the redeploy
+    redeployedAt?: number;
+  };
   optimizationReport?: {
     success: boolean;
     error?: string;
@@ -25,46 +32,34 @@ export interface LandData {
       originalSize?: number;
       optimizedSize?: number;
       compressionRatio?: number;
+      totalAssets?: number;
+      successfulAssets?: number;
+      failedAssets?: number;
+      processingTime?: number;
     };
   };
 }
 
-export interface Stats {
-  totalLands: number;
-  occupiedLands: number;
-  emptyLands: number;
-  totalScenes: number;
-  averageLandsPerScene: number;
-  scenesWithOptimizedAssets: number;
-  scenesWithoutOptimizedAssets: number;
-  scenesWithReports: number;
-  successfulOptimizations: number;
-  failedOptimizations: number;
-  optimizationPercentage: number;
-}
-
-// Compressed format from R2: [x, y, sceneId, hasOptimized, reportSuccess?]
-export type CompressedLand = [number, number, string, number, number?];
-
-// Compressed world format: [name, sceneId, title, thumbnail, parcels, hasOptimized, hasFailed?]
-export type CompressedWorld = [string, string, string, string, number, number, number?];
-
-export interface WorldsStats {
-  totalWorlds: number;
-  optimizedWorlds: number;
-  notOptimizedWorlds: number;
-  failedWorlds: number;
-  optimizationPercentage: number;
-}
-
-export interface CompressedReportData {
-  l: CompressedLand[]; // lands (only occupied)
-  s: Stats; // stats
-  c: Record<string, number>; // color indices for scenes
-  g: number; // generated timestamp
-  w?: CompressedWorld[]; // worlds array
-  ws?: WorldsStats | null; // worlds stats
-}
+// Report payload types come from the schema shared with the generator
+export type {
+  CompressedLand,
+  CompressedMetrics,
+  CompressedRegion,
+  CompressedSceneMetadata,
+  CompressedVersionCoverage,
+  CompressedWorld,
+  CompressedWorldScene,
+  CollectionEntityType,
+  EntityCoverage,
+  EntityTypeStats,
+  RegionStats,
+  VersionCoverage,
+  VersionMigration,
+  WorldsStats,
+  WorldOptimizationStatus,
+  ReportStats as Stats,
+  ReportPayload as CompressedReportData,
+} from '../../../src/shared/report-schema';
 
 export interface HistoryEntry {
   id: number;
@@ -81,8 +76,23 @@ export interface HistoryEntry {
   failed_optimizations: number;
 }
 
-export type MapView = 'optimization' | 'scenes';
-export type TabName = 'overview' | 'worlds' | 'pipeline' | 'ranking' | 'failing' | 'history';
+// A configured region: its shape (rectangles as [minX, minY, maxX, maxY] plus single parcels) and coverage
+export interface Region {
+  id: string;
+  name: string;
+  rects: [number, number, number, number][];
+  parcels: [number, number][];
+  stats: RegionStats;
+}
+
+export type MapView = 'optimization' | 'scenes' | 'migration';
+
+// Optimization API versions covered by a report (primary is the one reports are fetched for)
+export interface ReportVersions {
+  primary: string;
+  list: string[];
+}
+export type TabName = 'overview' | 'worlds' | 'pipeline' | 'ranking' | 'failing' | 'plan' | 'history';
 
 export interface RankingEntry {
   rank: number;
@@ -95,7 +105,75 @@ export interface RankingEntry {
   entityType?: EntityType;
 }
 
+// Priority planner: unoptimized and failed scenes ranked by impact (see /api/priority-plan)
+export interface PlannedScene {
+  rank: number;
+  sceneId: string;
+  title: string;
+  baseParcel: string;
+  parcels: number;
+  status: 'not-optimized' | 'failed';
+  failureCount: number;
+  deployedAt: number | null;
+  nearestHotspot: string | null;
+  score: number;
+  factors: {
+    parcels: number;
+    hotspot: number;
+    recency: number;
+    failures: number;
+  };
+}
+
+export interface PriorityPlanResponse {
+  generatedAt: string;
+  candidates: number;
+  planned: number;
+  scenes: PlannedScene[];
+}
+
+// Run-to-run diff of two report snapshots (see /api/report-diff)
+export type DiffSceneStatus = 'optimized' | 'failed' | 'not-optimized';
+
+export interface DiffScene {
+  sceneId: string;
+  title: string;
+  baseParcel: string;
+  parcels: number;
+  from: DiffSceneStatus | null;
+  to: DiffSceneStatus | null;
+}
+
+export type DiffWorldStatus = WorldOptimizationStatus | 'failed';
+
+export interface DiffWorld {
+  name: string;
+  title: string;
+  from: DiffWorldStatus | null;
+  to: DiffWorldStatus | null;
+}
+
+export interface ReportDiffResponse {
+  fromSnapshot: string;
+  toSnapshot: string;
+  from: { generatedAt: number; totalScenes: number; optimizationPercentage: number };
+  to: { generatedAt: number; totalScenes: number; optimizationPercentage: number };
+  optimized: DiffScene[];
+  regressed: DiffScene[];
+  added: DiffScene[];
+  removed: DiffScene[];
+  worlds: DiffWorld[];
+}
+
 // World types
+export interface WorldScene {
+  sceneId: string;
+  title: string;
+  parcels: number;
+  hasOptimizedAssets: boolean;
+  hasFailed: boolean;
+}
+
 export interface WorldWithOptimization {
   name: string;
   sceneId: string;
@@ -104,6 +182,8 @@ export interface WorldWithOptimization {
   parcels: number;
   hasOptimizedAssets: boolean;
   hasFailed?: boolean;
+  status: WorldOptimizationStatus;
+  scenes: WorldScene[];
   optimizationReport?: OptimizationReport;
 }
 
@@ -159,6 +239,7 @@ export interface MonitoringData {
   consumers: Consumer[];
   recentHistory: ProcessingHistoryEntry[];
   processedLastHour: number;
+  failureCategories?: Record<string, number>;
 }
 
 // Failed jobs from database history
@@ -168,6 +249,8 @@ export interface FailedJobEntry {
   completedAt: string;
   errorMessage: string | null;
   entityType: EntityType;
+  failureCategory?: string | null; // absent for jobs recorded before failure classification
+  failureCode?: string | null;
 }
 
 // Generating status from report hook
@@ -11,4 +11,11 @@ export const COLORS = {
   notOptimized: '#ef4444',
   reportSuccess: '#3b82f6',
   noReport: '#6b7280',
+  regressed: '#a855f7',
+  regionOutline: '#ffffff',
+  // Migration view: optimized in the compared version and/or the primary one
+  migrationBoth: '#10b981',
+  migrationOnlyNew: '#3b82f6',
+  migrationOnlyOld: '#f59e0b',
+  migrationNeither: '#ef4444',
 } as const;
@@ -11,6 +11,13 @@ export function formatFileSize(bytes: number): string {
   return `${mb.toFixed(2)} MB`;
 }
 
+export function formatDuration(ms: number): string {
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${Math.round(seconds % 60)}s`;
+}
+
 export function formatDate(timestamp: number | string): string {
   const date = new Date(timestamp);
   return date.toLocaleString();
@@ -0,0 +1,41 @@
+import type { Region } from '../types';
+
+const MIN_COORD = -175;
+const MAX_COORD = 175;
+
+// A unit edge between parcel corners, in parcel coordinates
+export type OutlineSegment = [number, number, number, number];
+
+// Pointers ("x,y") of every parcel in the region, clipped to the map
+export function getRegionParcels(region: Region): Set<string> {
+  const parcels = new Set<string>();
+  for (const [minX, minY, maxX, maxY] of region.rects) {
+    for (let x = Math.max(minX, MIN_COORD); x <= Math.min(maxX, MAX_COORD); x++) {
+      for (let y = Math.max(minY, MIN_COORD); y <= Math.min(maxY, MAX_COORD); y++) {
+        parcels.add(`${x},${y}`);
+      }
+    }
+  }
+  for (const [x, y] of region.parcels) {
+    if (x >= MIN_COORD && x <= MAX_COORD && y >= MIN_COORD && y <= MAX_COORD) {
+      parcels.add(`${x},${y}`);
+    }
+  }
+  return parcels;
+}
+
+// Edges of the region's parcels that do not border another parcel of the region
+export function getRegionOutline(region: Region): OutlineSegment[] {
+  const parcels = getRegionParcels(region);
+  const segments: OutlineSegment[] = [];
+
+  parcels.forEach((pointer) => {
+    const [x, y] = pointer.split(',').map(Number);
+    if (!parcels.has(`${x},${y - 1}`)) segments.push([x, y, x + 1, y]);
+    if (!parcels.has(`${x},${y + 1}`)) segments.push([x, y + 1, x + 1, y + 1]);
+    if (!parcels.has(`${x - 1},${y}`)) segments.push([x, y, x, y + 1]);
+    if (!parcels.has(`${x + 1},${y}`)) segments.push([x + 1, y, x + 1, y + 1]);
+  });
+
+  return segments;
+}